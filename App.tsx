@@ -1,28 +1,49 @@
 import React, { useState } from 'react';
-import type { Mode } from './types';
+import type { Mode, MediaLibraryItem } from './types';
 import ModeSelector from './components/ModeSelector';
 import ChatMode from './components/modes/ChatMode';
 import AnalyzeMode from './components/modes/AnalyzeMode';
 import ImageMode from './components/modes/ImageMode';
 import VideoMode from './components/modes/VideoMode';
+import StoryboardMode from './components/modes/StoryboardMode';
 import AudioMode from './components/modes/AudioMode';
 import TranscribeMode from './components/modes/TranscribeMode';
+import TalkMode from './components/modes/TalkMode';
+import LibraryMode from './components/modes/LibraryMode';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<Mode>('chat');
+  // Library item whose settings prefill the mode it was generated in.
+  const [reuseItem, setReuseItem] = useState<MediaLibraryItem | null>(null);
+
+  const handleSelectMode = (nextMode: Mode) => {
+    setReuseItem(null);
+    setMode(nextMode);
+  };
+
+  const handleReuse = (item: MediaLibraryItem) => {
+    setReuseItem(item);
+    setMode(item.kind);
+  };
 
   const renderMode = () => {
     switch (mode) {
       case 'analyze':
         return <AnalyzeMode />;
       case 'image':
-        return <ImageMode />;
+        return <ImageMode initialItem={reuseItem?.kind === 'image' ? reuseItem : undefined} />;
       case 'video':
-        return <VideoMode />;
+        return <VideoMode initialItem={reuseItem?.kind === 'video' ? reuseItem : undefined} />;
+      case 'storyboard':
+        return <StoryboardMode />;
       case 'audio':
-        return <AudioMode />;
+        return <AudioMode initialItem={reuseItem?.kind === 'audio' ? reuseItem : undefined} />;
       case 'transcribe':
         return <TranscribeMode />;
+      case 'talk':
+        return <TalkMode />;
+      case 'library':
+        return <LibraryMode onReuse={handleReuse} />;
       case 'chat':
       default:
         return <ChatMode />;
@@ -40,7 +61,7 @@ const App: React.FC = () => {
         </h1>
       </header>
       
-      <ModeSelector currentMode={mode} onSelectMode={setMode} />
+      <ModeSelector currentMode={mode} onSelectMode={handleSelectMode} />
 
       <main className="flex-grow p-4 md:p-6 overflow-hidden">
         {renderMode()}
@@ -0,0 +1,140 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { pcmToWav, pcmToMp3, computeWaveformPeaks, formatDuration } from '../utils/audioUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+const WAVEFORM_BARS = 160;
+const WAVEFORM_WIDTH = 640;
+const WAVEFORM_HEIGHT = 64;
+
+interface AudioPlayerProps {
+  // Mono 16-bit PCM samples.
+  pcm: Uint8Array;
+  sampleRate: number;
+  // Download name without extension.
+  fileName: string;
+  autoPlay?: boolean;
+}
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ pcm, sampleRate, fileName, autoPlay = false }) => {
+  const [wavUrl, setWavUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const duration = pcm.byteLength / 2 / sampleRate;
+  const peaks = useMemo(() => computeWaveformPeaks(pcm, WAVEFORM_BARS), [pcm]);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(pcmToWav(pcm, sampleRate, 1));
+    setWavUrl(url);
+    setCurrentTime(0);
+    return () => URL.revokeObjectURL(url);
+  }, [pcm, sampleRate]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const barWidth = WAVEFORM_WIDTH / peaks.length;
+    const playedBars = duration > 0 ? (currentTime / duration) * peaks.length : 0;
+    ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(2, peak * WAVEFORM_HEIGHT);
+      ctx.fillStyle = i < playedBars ? '#06b6d4' : '#4b5563';
+      ctx.fillRect(i * barWidth, (WAVEFORM_HEIGHT - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, currentTime, duration]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error("Audio playback failed:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (time: number) => {
+    if (!audioRef.current) return;
+    const clamped = Math.min(Math.max(time, 0), duration);
+    audioRef.current.currentTime = clamped;
+    setCurrentTime(clamped);
+  };
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="w-full p-4 space-y-3">
+      {wavUrl && (
+        <audio
+          ref={audioRef}
+          src={wavUrl}
+          autoPlay={autoPlay}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className="hidden"
+        />
+      )}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={togglePlayback}
+          className="bg-cyan-600 text-white p-3 rounded-full hover:bg-cyan-500 transition duration-200 flex-shrink-0"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+        </button>
+        <canvas
+          ref={canvasRef}
+          width={WAVEFORM_WIDTH}
+          height={WAVEFORM_HEIGHT}
+          onClick={handleWaveformClick}
+          className="flex-grow min-w-0 h-16 cursor-pointer"
+          aria-hidden="true"
+        />
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={currentTime}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="w-full accent-cyan-500"
+        aria-label="Seek"
+      />
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <span className="mr-auto tabular-nums">{formatDuration(currentTime)} / {formatDuration(duration)}</span>
+        {wavUrl && (
+          <a
+            href={wavUrl}
+            download={`${fileName}.wav`}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            WAV
+          </a>
+        )}
+        <button
+          type="button"
+          onClick={() => downloadBlob(pcmToMp3(pcm, sampleRate), `${fileName}.mp3`)}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          MP3
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPlayer;
@@ -1,42 +1,190 @@
-
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import SendIcon from './icons/SendIcon';
+import StopIcon from './icons/StopIcon';
+import AddFileIcon from './icons/AddFileIcon';
+import ClearIcon from './icons/ClearIcon';
+
+// Attachments are sent inline and re-sent as history with every later message, so the
+// limit covers the whole conversation. Base64 grows them by a third on the way to the
+// 20MB request cap, and the rest leaves room for the text.
+const MAX_ATTACHMENT_SIZE_MB = 14;
+const MAX_ATTACHMENT_SIZE_BYTES = MAX_ATTACHMENT_SIZE_MB * 1024 * 1024;
+const ACCEPTED_ATTACHMENT_TYPES = ['image/', 'video/'];
+
+interface PendingAttachment {
+  file: File;
+  previewUrl: string;
+}
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, files: File[]) => void;
   isLoading: boolean;
+  onStop?: () => void;
+  // Bytes of the attachments already in the conversation.
+  usedAttachmentBytes?: number;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, onStop, usedAttachmentBytes = 0 }) => {
   const [inputText, setInputText] = useState('');
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  useEffect(() => {
+    // Release preview URLs still pending on unmount
+    return () => attachmentsRef.current.forEach(a => URL.revokeObjectURL(a.previewUrl));
+  }, []);
+
+  const addFiles = (files: File[]) => {
+    const accepted: PendingAttachment[] = [];
+    let totalBytes = usedAttachmentBytes + attachments.reduce((sum, a) => sum + a.file.size, 0);
+    for (const file of files) {
+      if (!ACCEPTED_ATTACHMENT_TYPES.some(type => file.type.startsWith(type))) {
+        setAttachmentError(`"${file.name}" is not an image or video.`);
+        continue;
+      }
+      if (totalBytes + file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+        setAttachmentError(usedAttachmentBytes > 0
+          ? `"${file.name}" would take this chat's attachments over ${MAX_ATTACHMENT_SIZE_MB}MB. Start a new chat to send it.`
+          : `"${file.name}" is too large. Attachments must total under ${MAX_ATTACHMENT_SIZE_MB}MB.`);
+        continue;
+      }
+      totalBytes += file.size;
+      accepted.push({ file, previewUrl: URL.createObjectURL(file) });
+    }
+    if (accepted.length === files.length) {
+      setAttachmentError(null);
+    }
+    setAttachments(prev => [...prev, ...accepted]);
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => {
+      URL.revokeObjectURL(prev[index].previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (isLoading) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isLoading) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputText.trim() && !isLoading) {
-      onSendMessage(inputText);
+    if ((inputText.trim() || attachments.length > 0) && !isLoading) {
+      onSendMessage(inputText, attachments.map(a => a.file));
+      attachments.forEach(a => URL.revokeObjectURL(a.previewUrl));
+      setAttachments([]);
+      setAttachmentError(null);
       setInputText('');
     }
   };
 
   return (
-    <form onSubmit={handleSubmit} className="flex items-center gap-3">
-      <input
-        type="text"
-        value={inputText}
-        onChange={(e) => setInputText(e.target.value)}
-        placeholder="Type your message here..."
-        disabled={isLoading}
-        className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
-        autoFocus
-      />
-      <button
-        type="submit"
-        disabled={isLoading || !inputText.trim()}
-        className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0"
-        aria-label="Send message"
-      >
-        <SendIcon />
-      </button>
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`space-y-2 rounded-lg transition-colors duration-200 ${isDragging ? 'ring-2 ring-cyan-500 ring-offset-4 ring-offset-gray-900' : ''}`}
+    >
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment, index) => (
+            <div key={attachment.previewUrl} className="relative w-16 h-16 rounded-md overflow-hidden border border-gray-600 bg-gray-800">
+              {attachment.file.type.startsWith('video/') ? (
+                <video src={attachment.previewUrl} className="w-full h-full object-cover" muted />
+              ) : (
+                <img src={attachment.previewUrl} alt={attachment.file.name} className="w-full h-full object-cover" />
+              )}
+              <button
+                type="button"
+                onClick={() => removeAttachment(index)}
+                className="absolute top-0.5 right-0.5 bg-black/60 text-white rounded-full p-0.5"
+                aria-label={`Remove ${attachment.file.name}`}
+              >
+                <ClearIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {attachmentError && <p className="text-sm text-red-400">{attachmentError}</p>}
+      <div className="flex items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          onChange={handleFileChange}
+          className="sr-only"
+          disabled={isLoading}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="text-gray-400 hover:text-white disabled:text-gray-500 disabled:cursor-not-allowed transition duration-200 flex-shrink-0"
+          aria-label="Attach image or video"
+        >
+          <AddFileIcon />
+        </button>
+        <input
+          type="text"
+          value={inputText}
+          onChange={(e) => setInputText(e.target.value)}
+          onPaste={handlePaste}
+          placeholder="Type your message here..."
+          disabled={isLoading}
+          className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
+          autoFocus
+        />
+        {isLoading && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="bg-red-600 text-white p-3 rounded-lg hover:bg-red-500 transition duration-200 flex-shrink-0"
+            aria-label="Stop generating"
+          >
+            <StopIcon />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={isLoading || (!inputText.trim() && attachments.length === 0)}
+            className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0"
+            aria-label="Send message"
+          >
+            <SendIcon />
+          </button>
+        )}
+      </div>
     </form>
   );
 };
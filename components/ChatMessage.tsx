@@ -3,6 +3,8 @@ import React from 'react';
 import type { Message } from '../types';
 import BotIcon from './icons/BotIcon';
 import UserIcon from './icons/UserIcon';
+import MarkdownRenderer from './MarkdownRenderer';
+import { attachmentToDataUrl } from '../utils/fileUtils';
 
 interface ChatMessageProps {
   message: Message;
@@ -24,7 +26,22 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         </div>
       )}
       <div className={bubbleClasses}>
-        <p className="whitespace-pre-wrap">{message.text}</p>
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {message.attachments.map((attachment, index) => (
+              attachment.mimeType.startsWith('video/') ? (
+                <video key={index} src={attachmentToDataUrl(attachment)} controls className="max-h-40 rounded-md" />
+              ) : (
+                <img key={index} src={attachmentToDataUrl(attachment)} alt={attachment.name} className="max-h-40 rounded-md object-contain" />
+              )
+            ))}
+          </div>
+        )}
+        {isUser ? (
+          message.text && <p className="whitespace-pre-wrap">{message.text}</p>
+        ) : (
+          <MarkdownRenderer text={message.text} />
+        )}
       </div>
        {isUser && (
         <div className="flex-shrink-0">
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { ChatPersona, Conversation } from '../types';
+import { resolvePersona } from '../services/personaStore';
+import ClearIcon from './icons/ClearIcon';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  personas: ChatPersona[];
+  activeId: string | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ conversations, personas, activeId, disabled, onSelect, onCreate, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = normalizedQuery
+    ? conversations.filter(c =>
+        c.title.toLowerCase().includes(normalizedQuery) ||
+        c.messages.some(m => m.text.toLowerCase().includes(normalizedQuery)))
+    : conversations;
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-full md:w-64 max-h-60 md:max-h-none flex-shrink-0 flex flex-col gap-3 bg-gray-800 rounded-lg p-3 border border-gray-700 overflow-hidden">
+      <button
+        onClick={onCreate}
+        disabled={disabled}
+        className="w-full px-4 py-2 rounded-md text-sm font-medium bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+      >
+        + New Chat
+      </button>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search conversations..."
+        className="w-full p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+        aria-label="Search conversations"
+      />
+      <ul className="flex-grow overflow-y-auto space-y-1">
+        {filtered.map(conversation => (
+          <li key={conversation.id}>
+            {editingId === conversation.id ? (
+              <input
+                type="text"
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full p-2 text-sm bg-gray-700 rounded-md border border-cyan-500 focus:outline-none"
+                aria-label="Conversation title"
+                autoFocus
+              />
+            ) : (
+              <div
+                className={`group flex items-center gap-1 rounded-md transition-colors duration-200 ${
+                  conversation.id === activeId ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/60'
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  onDoubleClick={() => startEditing(conversation)}
+                  disabled={disabled}
+                  className="flex-grow min-w-0 text-left px-3 py-2 disabled:cursor-not-allowed"
+                  title={`Last updated ${new Date(conversation.updatedAt).toLocaleString()}`}
+                >
+                  <span className="block truncate text-sm">{conversation.title}</span>
+                  <span className="block truncate text-xs text-gray-500">{resolvePersona(conversation.personaId, personas).name}</span>
+                </button>
+                <button
+                  onClick={() => startEditing(conversation)}
+                  className="p-1 text-xs text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Rename ${conversation.title}`}
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => onDelete(conversation.id)}
+                  disabled={disabled}
+                  className="p-1 mr-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity disabled:cursor-not-allowed"
+                  aria-label={`Delete ${conversation.title}`}
+                >
+                  <ClearIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+        {filtered.length === 0 && (
+          <li className="text-center text-sm text-gray-500 py-4">No conversations found.</li>
+        )}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,180 @@
+import React, { useRef } from 'react';
+import type { DialogueLine, DialogueSpeaker, VoiceAlias } from '../types';
+import { PREBUILT_VOICES } from '../services/voiceCatalog';
+import { getScriptSpeakers, parseDialogueScript } from '../utils/dialogueScript';
+import VoiceSelect from './VoiceSelect';
+import AddFileIcon from './icons/AddFileIcon';
+import ClearIcon from './icons/ClearIcon';
+
+interface DialogueEditorProps {
+  lines: DialogueLine[];
+  speakers: DialogueSpeaker[];
+  aliases: VoiceAlias[];
+  maxSpeakers: number;
+  disabled: boolean;
+  onChange: (lines: DialogueLine[], speakers: DialogueSpeaker[]) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName = "p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50";
+
+const DialogueEditor: React.FC<DialogueEditorProps> = ({ lines, speakers, aliases, maxSpeakers, disabled, onChange, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSpeaker = (index: number, update: Partial<DialogueSpeaker>) => {
+    const previousName = speakers[index].name;
+    const nextSpeakers = speakers.map((speaker, i) => (i === index ? { ...speaker, ...update } : speaker));
+    // Renaming a speaker carries their lines along.
+    const nextLines = update.name === undefined
+      ? lines
+      : lines.map(line => (line.speaker === previousName ? { ...line, speaker: update.name! } : line));
+    onChange(nextLines, nextSpeakers);
+  };
+
+  const addSpeaker = () => {
+    const voice = PREBUILT_VOICES.find(v => !speakers.some(speaker => speaker.voice === v.name))?.name ?? PREBUILT_VOICES[0].name;
+    onChange(lines, [...speakers, { name: `Speaker ${speakers.length + 1}`, voice }]);
+  };
+
+  const removeSpeaker = (index: number) => {
+    const removed = speakers[index].name;
+    const remaining = speakers.filter((_, i) => i !== index);
+    onChange(lines.map(line => (line.speaker === removed ? { ...line, speaker: remaining[0].name } : line)), remaining);
+  };
+
+  const updateLine = (index: number, update: Partial<DialogueLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...update } : line)), speakers);
+  };
+
+  // New lines alternate speakers, following on from the last line.
+  const addLine = () => {
+    const lastSpeakerIndex = speakers.findIndex(speaker => speaker.name === lines[lines.length - 1]?.speaker);
+    const nextSpeaker = speakers[(lastSpeakerIndex + 1) % speakers.length];
+    onChange([...lines, { speaker: nextSpeaker.name, text: '' }], speakers);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index), speakers);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const importedLines = parseDialogueScript(await file.text());
+      if (importedLines.length === 0) {
+        throw new Error("The script has no lines.");
+      }
+      const names = getScriptSpeakers(importedLines);
+      if (names.length > maxSpeakers) {
+        throw new Error(`The script has ${names.length} speakers; at most ${maxSpeakers} are supported.`);
+      }
+      // Keep the voice of a speaker that already exists, otherwise reuse the voice in that slot.
+      const importedSpeakers = names.map((name, i) => ({
+        name,
+        voice: speakers.find(speaker => speaker.name === name)?.voice ?? speakers[i]?.voice ?? PREBUILT_VOICES[i % PREBUILT_VOICES.length].name,
+      }));
+      onChange(importedLines, importedSpeakers);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Could not import the script.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-400">Speakers</span>
+          <input ref={fileInputRef} type="file" accept=".txt,text/plain" onChange={handleImport} className="sr-only" disabled={disabled} />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            title='Import a .txt script with one "Speaker: line" per line'
+          >
+            <AddFileIcon className="w-4 h-4" />
+            Import script
+          </button>
+        </div>
+        {speakers.map((speaker, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={speaker.name}
+              onChange={(e) => updateSpeaker(index, { name: e.target.value })}
+              disabled={disabled}
+              className={`flex-grow ${inputClassName}`}
+              aria-label={`Speaker ${index + 1} name`}
+            />
+            <VoiceSelect
+              value={speaker.voice}
+              onChange={(voice) => updateSpeaker(index, { voice })}
+              aliases={aliases}
+              disabled={disabled}
+              className="w-1/2"
+              ariaLabel={`Voice for ${speaker.name}`}
+            />
+            <button
+              type="button"
+              onClick={() => removeSpeaker(index)}
+              disabled={disabled || speakers.length === 1}
+              className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-400"
+              aria-label={`Remove ${speaker.name}`}
+            >
+              <ClearIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {speakers.length < maxSpeakers && (
+          <button type="button" onClick={addSpeaker} disabled={disabled} className="text-sm text-cyan-400 hover:text-cyan-300 disabled:opacity-50">
+            + Add speaker
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-gray-400">Script</span>
+        {lines.map((line, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <select
+              value={line.speaker}
+              onChange={(e) => updateLine(index, { speaker: e.target.value })}
+              disabled={disabled}
+              className={`w-32 flex-shrink-0 ${inputClassName}`}
+              aria-label={`Speaker for line ${index + 1}`}
+            >
+              {speakers.map(speaker => (
+                <option key={speaker.name} value={speaker.name}>{speaker.name}</option>
+              ))}
+            </select>
+            <textarea
+              value={line.text}
+              onChange={(e) => updateLine(index, { text: e.target.value })}
+              disabled={disabled}
+              placeholder="What they say..."
+              rows={2}
+              className={`flex-grow resize-none ${inputClassName}`}
+              aria-label={`Line ${index + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => removeLine(index)}
+              disabled={disabled}
+              className="p-1 mt-2 text-gray-400 hover:text-red-400 disabled:opacity-30"
+              aria-label={`Remove line ${index + 1}`}
+            >
+              <ClearIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={addLine} disabled={disabled} className="text-sm text-cyan-400 hover:text-cyan-300 disabled:opacity-50">
+          + Add line
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DialogueEditor;
@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import type { ImageLibraryItem } from '../types';
+import { editImage, getImageEditModel, type InlineImage } from '../services/aiService';
+import { listMediaItems, saveMediaItem, urlToBlob } from '../services/mediaLibrary';
+import { fileToAttachment, INLINE_FILE_SIZE_LIMIT_BYTES } from '../utils/fileUtils';
+import { renderMask, type MaskStroke } from '../utils/imageMask';
+import MaskCanvas from './MaskCanvas';
+import SendIcon from './icons/SendIcon';
+import ImageIcon from './icons/ImageIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+interface EditVersion {
+  id: string;
+  image: InlineImage;
+  // The change that produced this version; empty for the source image.
+  prompt: string;
+}
+
+const MIN_BRUSH_SIZE = 0.01;
+const MAX_BRUSH_SIZE = 0.15;
+
+function toDataUrl(image: InlineImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+async function blobToInlineImage(blob: Blob): Promise<InlineImage> {
+  const attachment = await fileToAttachment(new File([blob], 'source', { type: blob.type }));
+  return { data: attachment.data, mimeType: attachment.mimeType };
+}
+
+async function saveEditToLibrary(url: string, prompt: string): Promise<void> {
+  const blob = await urlToBlob(url);
+  const outputMimeType = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  await saveMediaItem({
+    kind: 'image',
+    prompt,
+    model: getImageEditModel(),
+    blob,
+    mimeType: outputMimeType,
+    settings: { outputMimeType, edited: true },
+  });
+}
+
+const CompareView: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const [split, setSplit] = useState(50);
+  return (
+    <div className="relative inline-block select-none">
+      <img src={after} alt="After" className="block max-w-full max-h-[60vh] rounded-lg" draggable={false} />
+      <img
+        src={before}
+        alt="Before"
+        className="absolute inset-0 w-full h-full object-contain rounded-lg"
+        style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs text-gray-200">Before</span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-xs text-gray-200">After</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={(e) => setSplit(Number(e.target.value))}
+        className="absolute bottom-2 left-1/2 -translate-x-1/2 w-2/3 accent-cyan-500"
+        aria-label="Compare before and after"
+      />
+    </div>
+  );
+};
+
+interface ImageEditorProps {
+  // Image to open with, e.g. one just generated.
+  initialImage?: Blob;
+}
+
+/** Masked, prompt-driven edits of one image, keeping every version so edits can be undone and chained. */
+const ImageEditor: React.FC<ImageEditorProps> = ({ initialImage }) => {
+  const [versions, setVersions] = useState<EditVersion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [strokes, setStrokes] = useState<MaskStroke[]>([]);
+  const [brushSize, setBrushSize] = useState(0.05);
+  const [isErasing, setIsErasing] = useState(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [libraryImages, setLibraryImages] = useState<ImageLibraryItem[] | null>(null);
+  const [libraryUrls, setLibraryUrls] = useState<Record<string, string>>({});
+
+  const current = versions[currentIndex];
+  const previous = currentIndex > 0 ? versions[currentIndex - 1] : undefined;
+
+  const openImage = async (blob: Blob) => {
+    setError(null);
+    try {
+      const image = await blobToInlineImage(blob);
+      setVersions([{ id: crypto.randomUUID(), image, prompt: '' }]);
+      setCurrentIndex(0);
+      setStrokes([]);
+      setIsComparing(false);
+      setLibraryImages(null);
+    } catch (err) {
+      console.error("Failed to open image:", err);
+      setError("Could not open the image.");
+    }
+  };
+
+  useEffect(() => {
+    if (initialImage) openImage(initialImage);
+  }, [initialImage]);
+
+  useEffect(() => {
+    if (!libraryImages) return;
+    const urls: Record<string, string> = {};
+    libraryImages.forEach(item => { urls[item.id] = URL.createObjectURL(item.blob); });
+    setLibraryUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [libraryImages]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError(`"${file.name}" is not an image.`);
+      return;
+    }
+    if (file.size > INLINE_FILE_SIZE_LIMIT_BYTES) {
+      setError("Image file size should be less than 20MB.");
+      return;
+    }
+    openImage(file);
+  };
+
+  const handleBrowseLibrary = async () => {
+    try {
+      const items = await listMediaItems();
+      setLibraryImages(items.filter((item): item is ImageLibraryItem => item.kind === 'image'));
+    } catch (err) {
+      console.error("Failed to load media library:", err);
+      setError("Could not load your media library.");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current || !prompt.trim() || isEditing) return;
+
+    setIsEditing(true);
+    setError(null);
+    try {
+      const mask = strokes.length > 0 && imageSize
+        ? { data: renderMask(strokes, imageSize.width, imageSize.height), mimeType: 'image/png' }
+        : undefined;
+      const result = await editImage({ image: current.image, mask, prompt: prompt.trim() });
+      const [header, data] = result.url.split(',');
+      const mimeType = header.slice('data:'.length, header.indexOf(';'));
+      const version: EditVersion = { id: crypto.randomUUID(), image: { data, mimeType }, prompt: prompt.trim() };
+      // Editing an earlier version drops the versions that followed it.
+      setVersions(prev => [...prev.slice(0, currentIndex + 1), version]);
+      setCurrentIndex(currentIndex + 1);
+      setStrokes([]);
+      setPrompt('');
+      saveEditToLibrary(result.url, version.prompt).catch(err => console.error("Failed to save edit to library:", err));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to edit image: ${errorMessage}`);
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const selectVersion = (index: number) => {
+    setCurrentIndex(index);
+    setStrokes([]);
+    if (index === 0) setIsComparing(false);
+  };
+
+  if (!current) {
+    return (
+      <div className="w-full max-w-2xl space-y-4">
+        <p className="text-center text-gray-400">Start from an image, paint over the part to change, and describe the edit.</p>
+        <div className="flex justify-center gap-3">
+          <label className="px-4 py-2 rounded-lg bg-cyan-600 text-white hover:bg-cyan-500 cursor-pointer">
+            Upload image
+            <input type="file" accept="image/*" onChange={handleFileChange} className="sr-only" />
+          </label>
+          <button type="button" onClick={handleBrowseLibrary} className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white">
+            Choose from library
+          </button>
+        </div>
+        {error && <p className="text-red-400 text-center">{error}</p>}
+        {libraryImages && (
+          libraryImages.length === 0 ? (
+            <p className="text-center text-gray-500">No images in your library yet.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-96 overflow-y-auto p-1">
+              {libraryImages.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => openImage(item.blob)}
+                  className="aspect-square rounded-md overflow-hidden border-2 border-transparent hover:border-cyan-500"
+                  title={item.prompt}
+                >
+                  <img src={libraryUrls[item.id]} alt={item.prompt} className="object-cover w-full h-full" />
+                </button>
+              ))}
+            </div>
+          )
+        )}
+        <div className="min-h-[200px] bg-gray-800 rounded-lg border border-gray-700 flex items-center justify-center">
+          <div className="text-center text-gray-500">
+            <ImageIcon className="w-16 h-16 mx-auto mb-2" />
+            <p>The image you edit will appear here.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-3xl space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button type="button" onClick={() => selectVersion(currentIndex - 1)} disabled={currentIndex === 0 || isEditing} className="px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50">
+          Undo edit
+        </button>
+        <button type="button" onClick={() => selectVersion(currentIndex + 1)} disabled={currentIndex === versions.length - 1 || isEditing} className="px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50">
+          Redo edit
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsComparing(comparing => !comparing)}
+          disabled={!previous}
+          className={`px-3 py-1.5 rounded-md disabled:opacity-50 ${isComparing ? 'bg-cyan-600 text-white shadow' : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'}`}
+          aria-pressed={isComparing}
+        >
+          Compare
+        </button>
+        <a
+          href={toDataUrl(current.image)}
+          download={`mani-ai-edit-${currentIndex}.${current.image.mimeType === 'image/jpeg' ? 'jpg' : 'png'}`}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          Download
+        </a>
+        <button type="button" onClick={() => setVersions([])} disabled={isEditing} className="ml-auto px-3 py-1.5 rounded-md text-gray-400 hover:text-white disabled:opacity-50">
+          Change image
+        </button>
+      </div>
+
+      {!isComparing && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+          <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+            <legend className="sr-only">Brush mode</legend>
+            {[false, true].map(erase => (
+              <div key={String(erase)}>
+                <input type="radio" id={`mask-${erase ? 'erase' : 'paint'}`} name="mask-mode" checked={isErasing === erase} onChange={() => setIsErasing(erase)} className="sr-only" />
+                <label htmlFor={`mask-${erase ? 'erase' : 'paint'}`} className={`block px-3 py-1 rounded-md font-medium transition-colors duration-200 cursor-pointer ${isErasing === erase ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}>
+                  {erase ? 'Erase' : 'Paint'}
+                </label>
+              </div>
+            ))}
+          </fieldset>
+          <label className="flex items-center gap-2">
+            Brush
+            <input type="range" min={MIN_BRUSH_SIZE} max={MAX_BRUSH_SIZE} step={0.01} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-28 accent-cyan-500" />
+          </label>
+          <button type="button" onClick={() => setStrokes(prev => prev.slice(0, -1))} disabled={strokes.length === 0} className="hover:text-white disabled:opacity-50">
+            Undo stroke
+          </button>
+          <button type="button" onClick={() => setStrokes([])} disabled={strokes.length === 0} className="hover:text-white disabled:opacity-50">
+            Clear mask
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-center bg-gray-800 rounded-lg border border-gray-700 p-3">
+        {isComparing && previous ? (
+          <CompareView before={toDataUrl(previous.image)} after={toDataUrl(current.image)} />
+        ) : (
+          <MaskCanvas
+            key={current.id}
+            imageUrl={toDataUrl(current.image)}
+            strokes={strokes}
+            onStrokesChange={setStrokes}
+            brushSize={brushSize}
+            isErasing={isErasing}
+            disabled={isEditing}
+            onImageLoad={(width, height) => setImageSize({ width, height })}
+          />
+        )}
+      </div>
+
+      {versions.length > 1 && (
+        <ol className="flex gap-2 overflow-x-auto pb-1">
+          {versions.map((version, index) => (
+            <li key={version.id} className="flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => selectVersion(index)}
+                disabled={isEditing}
+                className={`block w-16 h-16 rounded-md overflow-hidden border-2 ${index === currentIndex ? 'border-cyan-500' : 'border-transparent hover:border-gray-500'}`}
+                title={version.prompt || 'Original'}
+              >
+                <img src={toDataUrl(version.image)} alt={version.prompt || 'Original'} className="object-cover w-full h-full" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-start gap-3">
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={strokes.length > 0 ? "Describe what should replace the painted area..." : "Describe the change, or paint a mask to limit it..."}
+          disabled={isEditing}
+          className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 resize-none"
+          rows={3}
+        />
+        <button
+          type="submit"
+          disabled={isEditing || !prompt.trim()}
+          className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0 self-stretch"
+          aria-label="Apply edit"
+        >
+          {isEditing ? (
+            <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+          ) : <SendIcon />}
+        </button>
+      </form>
+      {error && <p className="text-red-400 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default ImageEditor;
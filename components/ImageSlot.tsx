@@ -0,0 +1,69 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import ImageIcon from './icons/ImageIcon';
+import ClearIcon from './icons/ClearIcon';
+
+interface ImageSlotProps {
+  label: string;
+  file: File | null;
+  onSelect: (file: File) => void;
+  onClear: () => void;
+  disabled?: boolean;
+  // Shown instead of "Click to upload", e.g. when the model does not support this input.
+  hint?: string;
+  className?: string;
+}
+
+/** A square image picker with a preview, used for the video inputs. */
+const ImageSlot: React.FC<ImageSlotProps> = ({ label, file, onSelect, onClear, disabled = false, hint, className = '' }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected) onSelect(selected);
+  };
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <p className="text-xs font-medium text-gray-400 text-center truncate">{label}</p>
+      <div
+        className={`relative w-full aspect-square bg-gray-800 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-700 transition-colors group ${
+          disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-cyan-500 cursor-pointer'
+        }`}
+        onClick={() => !disabled && inputRef.current?.click()}
+      >
+        <input ref={inputRef} type="file" accept="image/*" onChange={handleChange} className="sr-only" disabled={disabled} aria-label={label} />
+        {previewUrl ? (
+          <img src={previewUrl} alt={label} className="object-cover w-full h-full rounded-lg" />
+        ) : (
+          <div className="text-center text-gray-500 p-2">
+            <ImageIcon className="w-8 h-8 mx-auto mb-1" />
+            <p className="text-xs">{hint ?? 'Click to upload'}</p>
+          </div>
+        )}
+        {previewUrl && !disabled && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onClear();
+            }}
+            className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+            aria-label={`Clear ${label.toLowerCase()}`}
+          >
+            <ClearIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageSlot;
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface LevelMeterProps {
+  // 0 (silence) to 1 (full scale), as reported by the microphone capture.
+  level: number;
+  className?: string;
+}
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ level, className = '' }) => {
+  const percent = Math.round(Math.min(1, Math.max(0, level)) * 100);
+  const color = percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-400' : 'bg-cyan-500';
+
+  return (
+    <div
+      className={`h-2 bg-gray-700 rounded-full overflow-hidden ${className}`}
+      role="meter"
+      aria-label="Input level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+    >
+      <div className={`h-full ${color} transition-[width] duration-75`} style={{ width: `${percent}%` }} />
+    </div>
+  );
+};
+
+export default LevelMeter;
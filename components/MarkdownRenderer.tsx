@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import CopyIcon from './icons/CopyIcon';
+
+// Raw HTML in the source is never rendered: react-markdown escapes it unless a
+// raw-HTML plugin is added, and unsafe link protocols are stripped by default.
+
+const COPY_FEEDBACK_MS = 2000;
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const code = preRef.current?.innerText ?? '';
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPY_FEEDBACK_MS);
+    } catch (err) {
+      console.error("Failed to copy code:", err);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-800/80 text-gray-300 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        <CopyIcon className="w-4 h-4" />
+        <span>{copied ? 'Copied!' : 'Copy'}</span>
+      </button>
+      <pre ref={preRef} {...props} className="overflow-x-auto rounded-lg bg-gray-900 p-3 text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  h1: ({ node, ...props }) => <h1 className="text-2xl font-bold mt-4 mb-2" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-xl font-bold mt-4 mb-2" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-lg font-semibold mt-3 mb-2" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="font-semibold mt-3 mb-1" {...props} />,
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node, ...props }) => <ul className="list-disc pl-6 my-2 space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-6 my-2 space-y-1" {...props} />,
+  a: ({ node, ...props }) => <a className="text-cyan-400 hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="border-l-4 border-gray-500 pl-3 my-2 text-gray-400 italic" {...props} />,
+  hr: ({ node, ...props }) => <hr className="my-4 border-gray-600" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full text-sm border-collapse" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border border-gray-600 px-3 py-1 bg-gray-800 text-left font-semibold" {...props} />,
+  td: ({ node, ...props }) => <td className="border border-gray-600 px-3 py-1" {...props} />,
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  code: ({ node, className, ...props }) => (
+    // Fenced blocks carry a language/hljs class; bare inline code gets a pill style.
+    className
+      ? <code className={className} {...props} />
+      : <code className="rounded bg-gray-900/70 px-1 py-0.5 text-sm" {...props} />
+  ),
+};
+
+interface MarkdownRendererProps {
+  text: string;
+  className?: string;
+}
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ text, className = '' }) => (
+  <div className={`break-words ${className}`}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+      components={components}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownRenderer;
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { drawMaskStrokes, type MaskPoint, type MaskStroke } from '../utils/imageMask';
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  strokes: MaskStroke[];
+  onStrokesChange: (strokes: MaskStroke[]) => void;
+  // Fraction of the image width.
+  brushSize: number;
+  isErasing: boolean;
+  disabled?: boolean;
+  onImageLoad?: (width: number, height: number) => void;
+}
+
+/** Shows an image with a paintable overlay; finished strokes are reported through `onStrokesChange`. */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, strokes, onStrokesChange, brushSize, isErasing, disabled = false, onImageLoad }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [activeStroke, setActiveStroke] = useState<MaskStroke | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+    ctx.clearRect(0, 0, size.width, size.height);
+    drawMaskStrokes(ctx, activeStroke ? [...strokes, activeStroke] : strokes, 'rgb(6, 182, 212)');
+  }, [strokes, activeStroke, size]);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): MaskPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setActiveStroke({ points: [toPoint(e)], size: brushSize, erase: isErasing });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeStroke) return;
+    const point = toPoint(e);
+    setActiveStroke(stroke => stroke && { ...stroke, points: [...stroke.points, point] });
+  };
+
+  const handlePointerUp = () => {
+    if (!activeStroke) return;
+    onStrokesChange([...strokes, activeStroke]);
+    setActiveStroke(null);
+  };
+
+  return (
+    <div className="relative inline-block">
+      <img
+        src={imageUrl}
+        alt="Image being edited"
+        className="block max-w-full max-h-[60vh] rounded-lg select-none"
+        draggable={false}
+        onLoad={(e) => {
+          const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+          setSize({ width, height });
+          onImageLoad?.(width, height);
+        }}
+      />
+      {size && (
+        <canvas
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute inset-0 w-full h-full opacity-50 rounded-lg touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          aria-label="Mask: paint over the area to change"
+        />
+      )}
+    </div>
+  );
+};
+
+export default MaskCanvas;
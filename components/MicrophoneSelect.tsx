@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { listMicrophones } from '../utils/microphoneCapture';
+
+interface MicrophoneSelectProps {
+  // Empty selects the browser's default input.
+  value: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MicrophoneSelect: React.FC<MicrophoneSelectProps> = ({ value, onChange, disabled = false, className = '' }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Re-listed whenever capture starts or stops (which toggles `disabled`), since
+  // device labels only become readable once microphone access has been granted.
+  useEffect(() => {
+    const refresh = () => {
+      listMicrophones()
+        .then(setDevices)
+        .catch(err => console.error("Failed to list microphones:", err));
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [disabled]);
+
+  // Fall back to the default input if the chosen device was unplugged.
+  const isAvailable = !value || devices.some(device => device.deviceId === value);
+
+  return (
+    <select
+      value={isAvailable ? value : ''}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={`p-1.5 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 ${className}`}
+      aria-label="Microphone"
+    >
+      <option value="">Default microphone</option>
+      {devices
+        .filter(device => device.deviceId && device.deviceId !== 'default')
+        .map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+        ))}
+    </select>
+  );
+};
+
+export default MicrophoneSelect;
@@ -3,9 +3,12 @@ import type { Mode } from '../types';
 import ChatIcon from './icons/ChatIcon';
 import AnalyzeIcon from './icons/AnalyzeIcon';
 import VideoIcon from './icons/VideoIcon';
+import StoryboardIcon from './icons/StoryboardIcon';
 import AudioIcon from './icons/AudioIcon';
 import TranscribeIcon from './icons/TranscribeIcon';
+import TalkIcon from './icons/TalkIcon';
 import AspectRatioIcon from './icons/AspectRatioIcon';
+import LibraryIcon from './icons/LibraryIcon';
 
 interface ModeSelectorProps {
   currentMode: Mode;
@@ -18,8 +21,11 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ currentMode, onSelectMode }
     { id: 'analyze', label: 'Analyze', icon: <AnalyzeIcon /> },
     { id: 'image', label: 'Image Gen', icon: <AspectRatioIcon /> },
     { id: 'video', label: 'Video Gen', icon: <VideoIcon /> },
+    { id: 'storyboard', label: 'Storyboard', icon: <StoryboardIcon /> },
     { id: 'audio', label: 'Audio Gen', icon: <AudioIcon /> },
     { id: 'transcribe', label: 'Transcribe', icon: <TranscribeIcon /> },
+    { id: 'talk', label: 'Talk', icon: <TalkIcon /> },
+    { id: 'library', label: 'Library', icon: <LibraryIcon /> },
   ];
 
   return (
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import type { ChatPersona } from '../types';
+import { getChatModels } from '../services/aiService';
+import {
+  createPersona,
+  deletePersona,
+  DEFAULT_SYSTEM_INSTRUCTION,
+  exportPersonas,
+  importPersonas,
+  savePersona,
+  validatePersona,
+  type PersonaSettings,
+} from '../services/personaStore';
+import { downloadBlob } from '../utils/fileUtils';
+import ClearIcon from './icons/ClearIcon';
+
+interface PersonaManagerProps {
+  personas: ChatPersona[];
+  onPersonasChange: (personas: ChatPersona[]) => void;
+}
+
+// Numbers are edited as text so a field can be left empty to use the model's default.
+interface PersonaForm {
+  // Unset while creating a new persona.
+  id?: string;
+  name: string;
+  description: string;
+  systemInstruction: string;
+  model: string;
+  temperature: string;
+  topP: string;
+  maxOutputTokens: string;
+  thinkingBudget: string;
+}
+
+const numberFields: { key: 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget'; label: string; placeholder: string; step: string }[] = [
+  { key: 'temperature', label: 'Temperature', placeholder: '0 – 2', step: '0.1' },
+  { key: 'topP', label: 'Top P', placeholder: '0 – 1', step: '0.05' },
+  { key: 'maxOutputTokens', label: 'Max output tokens', placeholder: 'Model default', step: '1' },
+  { key: 'thinkingBudget', label: 'Thinking budget', placeholder: '-1 for automatic', step: '1' },
+];
+
+const inputClassName = "w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200";
+const buttonClassName = "px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50";
+
+function toForm(persona: ChatPersona): PersonaForm {
+  const text = (value?: number) => (value === undefined ? '' : String(value));
+  return {
+    id: persona.builtIn ? undefined : persona.id,
+    name: persona.builtIn ? `${persona.name} (copy)` : persona.name,
+    description: persona.description,
+    systemInstruction: persona.systemInstruction,
+    model: persona.model,
+    temperature: text(persona.temperature),
+    topP: text(persona.topP),
+    maxOutputTokens: text(persona.maxOutputTokens),
+    thinkingBudget: text(persona.thinkingBudget),
+  };
+}
+
+function toSettings(form: PersonaForm): PersonaSettings {
+  const number = (value: string) => (value.trim() ? Number(value) : undefined);
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    systemInstruction: form.systemInstruction.trim(),
+    model: form.model.trim(),
+    temperature: number(form.temperature),
+    topP: number(form.topP),
+    maxOutputTokens: number(form.maxOutputTokens),
+    thinkingBudget: number(form.thinkingBudget),
+  };
+}
+
+/** Lists chat personas; custom ones can be edited, deleted and shared as a file, built-in ones duplicated. */
+const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, onPersonasChange }) => {
+  const [form, setForm] = useState<PersonaForm | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const chatModels = getChatModels();
+
+  const startEditing = (next: PersonaForm) => {
+    setForm(next);
+    setNotice(null);
+    setError(null);
+  };
+
+  const handleNew = () => {
+    startEditing({
+      name: '',
+      description: '',
+      systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+      model: chatModels[0] ?? '',
+      temperature: '',
+      topP: '',
+      maxOutputTokens: '',
+      thinkingBudget: '',
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    const settings = toSettings(form);
+    const problem = validatePersona(settings);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const original = personas.find(p => p.id === form.id);
+    const persona = original ? { ...original, ...settings } : createPersona(settings);
+    try {
+      await savePersona(persona);
+    } catch (err) {
+      console.error("Failed to save persona:", err);
+      setError("Could not save the persona. Please try again.");
+      return;
+    }
+    onPersonasChange(original ? personas.map(p => (p.id === persona.id ? persona : p)) : [...personas, persona]);
+    setForm(null);
+    setError(null);
+    setNotice(`Saved "${persona.name}".`);
+  };
+
+  const handleDelete = async (persona: ChatPersona) => {
+    try {
+      await deletePersona(persona.id);
+    } catch (err) {
+      console.error("Failed to delete persona:", err);
+      setError("Could not delete the persona. Please try again.");
+      return;
+    }
+    onPersonasChange(personas.filter(p => p.id !== persona.id));
+    if (form?.id === persona.id) setForm(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { imported, skipped } = await importPersonas(await file.text(), personas);
+      onPersonasChange([...personas, ...imported]);
+      setError(null);
+      setNotice(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}` +
+        (skipped > 0 ? `; skipped ${skipped} that ${skipped === 1 ? 'was' : 'were'} invalid or already saved.` : '.'));
+    } catch (err) {
+      console.error("Failed to import personas:", err);
+      setNotice(null);
+      setError(err instanceof Error ? err.message : "Could not import the personas.");
+    }
+  };
+
+  const customCount = personas.filter(p => !p.builtIn).length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="flex-grow font-medium text-gray-200">Personas</h3>
+        <button type="button" onClick={handleNew} className={buttonClassName}>
+          New persona
+        </button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="sr-only" />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadBlob(exportPersonas(personas), 'personas.json')}
+          disabled={customCount === 0}
+          className={buttonClassName}
+          title={customCount === 0 ? 'Create a persona first; built-in personas are not exported' : undefined}
+        >
+          Export
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {personas.map(persona => (
+          <li key={persona.id} className={`flex items-center gap-2 rounded-md px-2 py-1.5 ${form?.id === persona.id ? 'bg-gray-700' : ''}`}>
+            <div className="flex-grow min-w-0">
+              <p className="truncate text-gray-200">{persona.name}{persona.builtIn ? ' (built in)' : ''}</p>
+              <p className="truncate text-xs text-gray-500">{persona.model}{persona.description ? ` · ${persona.description}` : ''}</p>
+            </div>
+            {persona.builtIn ? (
+              <button type="button" onClick={() => startEditing(toForm(persona))} className="text-xs text-gray-400 hover:text-white">
+                Duplicate
+              </button>
+            ) : (
+              <>
+                <button type="button" onClick={() => startEditing(toForm(persona))} className="text-xs text-gray-400 hover:text-white">
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleDelete(persona)} className="p-1 text-gray-400 hover:text-red-400" aria-label={`Delete ${persona.name}`}>
+                  <ClearIcon className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {form && (
+        <form onSubmit={handleSave} className="space-y-2 border-t border-gray-700 pt-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-400">Name</span>
+              <input type="text" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClassName} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-400">Model</span>
+              <input type="text" list="persona-models" value={form.model} onChange={(e) => setForm({ ...form, model: e.target.value })} className={inputClassName} />
+              <datalist id="persona-models">
+                {chatModels.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="block text-xs text-gray-400">Description</span>
+            <input type="text" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} className={inputClassName} />
+          </label>
+          <label className="block space-y-1">
+            <span className="block text-xs text-gray-400">System instruction</span>
+            <textarea
+              value={form.systemInstruction}
+              onChange={(e) => setForm({ ...form, systemInstruction: e.target.value })}
+              rows={4}
+              className={`${inputClassName} resize-y`}
+            />
+          </label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {numberFields.map(field => (
+              <label key={field.key} className="space-y-1">
+                <span className="block text-xs text-gray-400">{field.label}</span>
+                <input
+                  type="number"
+                  step={field.step}
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                  placeholder={field.placeholder}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="submit" className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-500">
+              {form.id ? 'Save changes' : 'Create persona'}
+            </button>
+            <button type="button" onClick={() => setForm(null)} className="px-3 py-1.5 rounded-md text-gray-400 hover:text-white">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {notice && <p className="text-gray-400">{notice}</p>}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import type { PromptTemplate } from '../types';
+import {
+  deletePromptTemplate,
+  exportPromptTemplates,
+  fillTemplate,
+  getTemplateVariables,
+  importPromptTemplates,
+  listPromptTemplates,
+  savePromptTemplate,
+} from '../services/promptTemplates';
+import { downloadBlob } from '../utils/fileUtils';
+import ClearIcon from './icons/ClearIcon';
+
+interface PromptTemplatePanelProps {
+  // Offered for saving as a new template.
+  prompt: string;
+  onUseTemplate: (prompt: string) => void;
+}
+
+const inputClassName = "p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200";
+const buttonClassName = "px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50";
+
+const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ prompt, onUseTemplate }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listPromptTemplates()
+      .then(loaded => {
+        setTemplates(loaded);
+        setSelectedId(current => current || loaded[0]?.id || '');
+      })
+      .catch(err => {
+        console.error("Failed to load prompt templates:", err);
+        setError("Could not load your prompt templates.");
+      });
+  }, []);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const variables = selected ? getTemplateVariables(selected.template) : [];
+  const missing = variables.filter(name => !values[name]?.trim());
+
+  const showNotice = (message: string) => {
+    setError(null);
+    setNotice(message);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || !prompt.trim()) return;
+    try {
+      const saved = await savePromptTemplate({ name, template: prompt.trim() });
+      setTemplates(prev => [...prev, saved]);
+      setSelectedId(saved.id);
+      setNewName('');
+      showNotice(`Saved "${name}".`);
+    } catch (err) {
+      console.error("Failed to save prompt template:", err);
+      setError("Could not save the template. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.builtIn) return;
+    try {
+      await deletePromptTemplate(selected.id);
+      const remaining = templates.filter(t => t.id !== selected.id);
+      setTemplates(remaining);
+      setSelectedId(remaining[0]?.id ?? '');
+    } catch (err) {
+      console.error("Failed to delete prompt template:", err);
+      setError("Could not delete the template. Please try again.");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importPromptTemplates(await file.text(), templates);
+      setTemplates(prev => [...prev, ...imported]);
+      showNotice(imported.length > 0
+        ? `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`
+        : 'Every template in the file is already in your library.');
+    } catch (err) {
+      console.error("Failed to import prompt templates:", err);
+      setNotice(null);
+      setError(err instanceof Error ? err.message : "Could not import the templates.");
+    }
+  };
+
+  const customCount = templates.filter(t => !t.builtIn).length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => {
+            setSelectedId(e.target.value);
+            setNotice(null);
+          }}
+          className={`flex-grow ${inputClassName}`}
+          aria-label="Prompt template"
+        >
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}{t.builtIn ? ' (built in)' : ''}</option>)}
+        </select>
+        {selected && !selected.builtIn && (
+          <button type="button" onClick={handleDelete} className="p-2 text-gray-400 hover:text-red-400" aria-label={`Delete ${selected.name}`}>
+            <ClearIcon className="w-4 h-4" />
+          </button>
+        )}
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="sr-only" />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadBlob(exportPromptTemplates(templates), 'prompt-templates.json')}
+          disabled={customCount === 0}
+          className={buttonClassName}
+          title={customCount === 0 ? 'Save a template first; built-in templates are not exported' : undefined}
+        >
+          Export
+        </button>
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <p className="text-gray-400 font-mono text-xs break-words">{selected.template}</p>
+          {variables.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {variables.map(name => (
+                <input
+                  key={name}
+                  type="text"
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  placeholder={name}
+                  className={inputClassName}
+                  aria-label={`Template variable ${name}`}
+                />
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onUseTemplate(fillTemplate(selected.template, values))}
+            disabled={missing.length > 0}
+            className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            title={missing.length > 0 ? `Fill in ${missing.map(name => `{${name}}`).join(', ')}` : undefined}
+          >
+            Use template
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2 border-t border-gray-700 pt-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Template name"
+          className={`flex-grow ${inputClassName}`}
+          aria-label="New template name"
+        />
+        <button type="submit" disabled={!newName.trim() || !prompt.trim()} className={buttonClassName}>
+          Save current prompt
+        </button>
+      </form>
+      <p className="text-xs text-gray-500">Write variables as {'{subject}'} or {'{style}'}; they become fields when the template is used.</p>
+
+      {notice && <p className="text-gray-400">{notice}</p>}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PromptTemplatePanel;
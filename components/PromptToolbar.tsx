@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { enhancePrompt, type PromptTarget } from '../services/aiService';
+import { diffWords } from '../utils/textDiff';
+import PromptTemplatePanel from './PromptTemplatePanel';
+
+interface PromptToolbarProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  target: PromptTarget;
+  disabled?: boolean;
+}
+
+interface Suggestion {
+  original: string;
+  enhanced: string;
+}
+
+const diffClasses = {
+  same: 'text-gray-300',
+  added: 'bg-green-900/60 text-green-200 rounded',
+  removed: 'bg-red-900/40 text-red-300 line-through rounded',
+};
+
+/** Prompt helpers for the generative modes: saved templates, and model-enhanced prompts reviewed as a diff. */
+const PromptToolbar: React.FC<PromptToolbarProps> = ({ prompt, onPromptChange, target, disabled = false }) => {
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEnhance = async () => {
+    const original = prompt.trim();
+    if (!original || isEnhancing) return;
+    setIsEnhancing(true);
+    setError(null);
+    setSuggestion(null);
+    try {
+      setSuggestion({ original, enhanced: await enhancePrompt(original, target) });
+    } catch (err) {
+      console.error("Failed to enhance prompt:", err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to enhance prompt: ${errorMessage}`);
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!suggestion) return;
+    onPromptChange(suggestion.enhanced);
+    setSuggestion(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => setShowTemplates(show => !show)}
+          className={`px-3 py-1.5 rounded-md ${showTemplates ? 'bg-cyan-600 text-white shadow' : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'}`}
+          aria-expanded={showTemplates}
+        >
+          Templates
+        </button>
+        <button
+          type="button"
+          onClick={handleEnhance}
+          disabled={disabled || isEnhancing || !prompt.trim()}
+          className="px-3 py-1.5 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50"
+        >
+          {isEnhancing ? 'Enhancing...' : 'Enhance prompt'}
+        </button>
+      </div>
+
+      {showTemplates && (
+        <PromptTemplatePanel
+          prompt={prompt}
+          onUseTemplate={(filled) => {
+            onPromptChange(filled);
+            setSuggestion(null);
+          }}
+        />
+      )}
+
+      {suggestion && (
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-2 text-sm">
+          <p className="text-xs font-medium text-gray-400">Suggested prompt</p>
+          <p className="leading-relaxed whitespace-pre-wrap">
+            {diffWords(suggestion.original, suggestion.enhanced).map((part, index) => (
+              <span key={index} className={diffClasses[part.change]}>{part.text}</span>
+            ))}
+          </p>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={handleAccept} disabled={disabled} className="px-3 py-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600">
+              Use this prompt
+            </button>
+            <button type="button" onClick={() => setSuggestion(null)} className="px-3 py-1.5 rounded-md text-gray-400 hover:text-white">
+              Discard
+            </button>
+            {prompt.trim() !== suggestion.original && (
+              <span className="text-xs text-yellow-400">Your prompt changed since this was suggested; using it replaces your edits.</span>
+            )}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PromptToolbar;
@@ -0,0 +1,92 @@
+import React from 'react';
+import type { SpeechDelivery } from '../types';
+import { SPEECH_LANGUAGES, SPEECH_PACES, STYLE_PRESETS } from '../services/speechDelivery';
+
+interface SpeechDeliveryControlsProps {
+  delivery: SpeechDelivery;
+  onChange: (delivery: SpeechDelivery) => void;
+  disabled?: boolean;
+}
+
+const SpeechDeliveryControls: React.FC<SpeechDeliveryControlsProps> = ({ delivery, onChange, disabled = false }) => {
+  const togglePreset = (id: string) => {
+    const presets = delivery.presets.includes(id)
+      ? delivery.presets.filter(preset => preset !== id)
+      : [...delivery.presets, id];
+    onChange({ ...delivery, presets });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Style presets">
+        {STYLE_PRESETS.map(preset => {
+          const isActive = delivery.presets.includes(preset.id);
+          return (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => togglePreset(preset.id)}
+              disabled={disabled}
+              aria-pressed={isActive}
+              className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isActive ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+              }`}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+      <input
+        type="text"
+        value={delivery.direction}
+        onChange={(e) => onChange({ ...delivery, direction: e.target.value })}
+        disabled={disabled}
+        placeholder="Direction, e.g. Sound like you're smiling, pause before the punchline"
+        className="w-full p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
+        aria-label="Speaking direction"
+      />
+      <div className="flex flex-col sm:flex-row gap-3">
+        <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+          <legend className="sr-only">Pace</legend>
+          {SPEECH_PACES.map(pace => (
+            <div key={pace.value}>
+              <input
+                type="radio"
+                id={`pace-${pace.value}`}
+                name="speech-pace"
+                value={pace.value}
+                checked={delivery.pace === pace.value}
+                onChange={() => onChange({ ...delivery, pace: pace.value })}
+                disabled={disabled}
+                className="sr-only"
+              />
+              <label
+                htmlFor={`pace-${pace.value}`}
+                className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                  delivery.pace === pace.value ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                }`}
+              >
+                {pace.label}
+              </label>
+            </div>
+          ))}
+        </fieldset>
+        <select
+          value={delivery.language}
+          onChange={(e) => onChange({ ...delivery, language: e.target.value })}
+          disabled={disabled}
+          className="flex-grow p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
+          aria-label="Language or accent"
+        >
+          <option value="">Language: match the text</option>
+          {SPEECH_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechDeliveryControls;
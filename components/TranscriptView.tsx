@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatTimestamp, groupBySpeaker } from '../utils/transcriptUtils';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  // The utterance still being recognised, shown after the final segments.
+  interim?: TranscriptSegment | null;
+  onSegmentsChange: (segments: TranscriptSegment[]) => void;
+}
+
+type EditTarget = { kind: 'text' | 'speaker'; segmentId: string };
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, interim, onSegmentsChange }) => {
+  const [editing, setEditing] = useState<EditTarget | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (target: EditTarget, value: string) => {
+    setEditing(target);
+    setDraft(value);
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const value = draft.trim();
+    if (editing.kind === 'text') {
+      // Clearing a segment's text removes it.
+      onSegmentsChange(value
+        ? segments.map(segment => (segment.id === editing.segmentId ? { ...segment, text: value } : segment))
+        : segments.filter(segment => segment.id !== editing.segmentId));
+    } else {
+      // Relabelling a turn applies to every segment in it.
+      const turn = groupBySpeaker(segments).find(t => t.segments.some(segment => segment.id === editing.segmentId));
+      const ids = new Set(turn?.segments.map(segment => segment.id));
+      onSegmentsChange(segments.map(segment => (ids.has(segment.id) ? { ...segment, speaker: value || undefined } : segment)));
+    }
+    setEditing(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(null);
+    }
+  };
+
+  const turns = groupBySpeaker(interim ? [...segments, interim] : segments);
+
+  return (
+    <div className="space-y-4">
+      {turns.map(turn => {
+        const first = turn.segments[0];
+        const isEditingSpeaker = editing?.kind === 'speaker' && editing.segmentId === first.id;
+        return (
+          <div key={first.id} className="space-y-1">
+            <div className="flex items-baseline gap-2 text-sm">
+              {isEditingSpeaker ? (
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onBlur={commitEdit}
+                  onKeyDown={handleKeyDown}
+                  className="px-1 bg-gray-700 rounded border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none text-cyan-300"
+                  aria-label="Speaker name"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => first.isFinal && startEditing({ kind: 'speaker', segmentId: first.id }, turn.speaker ?? '')}
+                  className={`font-semibold hover:underline ${turn.speaker ? 'text-cyan-300' : 'text-gray-500 italic'}`}
+                  title="Rename speaker"
+                >
+                  {turn.speaker ?? 'Add speaker'}
+                </button>
+              )}
+              <span className="text-xs text-gray-500 tabular-nums">{formatTimestamp(first.startMs)}</span>
+            </div>
+            {turn.segments.map(segment => {
+              const isEditingText = editing?.kind === 'text' && editing.segmentId === segment.id;
+              return (
+                <div key={segment.id} className="flex items-start gap-3">
+                  <span className="text-xs text-gray-500 tabular-nums pt-1 w-20 flex-shrink-0">
+                    {formatTimestamp(segment.startMs)}–{formatTimestamp(segment.endMs)}
+                  </span>
+                  {isEditingText ? (
+                    <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onBlur={commitEdit}
+                      onKeyDown={handleKeyDown}
+                      rows={2}
+                      className="flex-grow p-1 bg-gray-700 rounded border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none text-gray-200"
+                      aria-label="Edit segment"
+                      autoFocus
+                    />
+                  ) : (
+                    <p
+                      onClick={() => segment.isFinal && startEditing({ kind: 'text', segmentId: segment.id }, segment.text)}
+                      className={`flex-grow whitespace-pre-wrap rounded px-1 ${segment.isFinal ? 'text-gray-200 cursor-text hover:bg-gray-700/50' : 'text-gray-400'}`}
+                    >
+                      {segment.text}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { getVideoJobResult, isVideoJobActive, type VideoJob, type VideoJobResult, type VideoJobStatus } from '../services/videoJobs';
+import { formatDuration } from '../utils/audioUtils';
+import ClearIcon from './icons/ClearIcon';
+
+interface VideoJobQueueProps {
+  jobs: VideoJob[];
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  // Shown next to errors that a different API key might fix.
+  onSelectKey: () => void;
+  // Offered on finished clips when the selected model can extend them.
+  onExtend?: (job: VideoJob, videoUri: string) => void;
+}
+
+const statusLabels: Record<VideoJobStatus, string> = {
+  queued: 'Queued',
+  generating: 'Generating',
+  fetching: 'Downloading',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const statusClasses: Record<VideoJobStatus, string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  generating: 'bg-cyan-900 text-cyan-300',
+  fetching: 'bg-cyan-900 text-cyan-300',
+  completed: 'bg-green-900 text-green-300',
+  failed: 'bg-red-900 text-red-300',
+  cancelled: 'bg-gray-700 text-gray-400',
+};
+
+function describeError(message: string): { message: string; isQuotaError?: boolean; isKeyError?: boolean } {
+  if (message.includes("RESOURCE_EXHAUSTED") || message.includes("exceeded your current quota")) {
+    return {
+      message: "You've exceeded your video generation quota. Please check your plan and billing details, or try again later.",
+      isQuotaError: true,
+    };
+  }
+  if (message.includes("Requested entity was not found")) {
+    return { message: "Your API key may be invalid or missing required permissions. Please select a valid key.", isKeyError: true };
+  }
+  return { message: `Failed to generate video: ${message}` };
+}
+
+const JobVideo: React.FC<{ job: VideoJob; mediaItemId: string; onExtend?: (videoUri: string) => void }> = ({ job, mediaItemId, onExtend }) => {
+  const [result, setResult] = useState<VideoJobResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getVideoJobResult(mediaItemId)
+      .then(loaded => !cancelled && setResult(loaded))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Could not load the video.'));
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaItemId]);
+
+  if (error) return <p className="text-sm text-gray-500">{error}</p>;
+  if (!result) return null;
+  const { videoUri } = result;
+  return (
+    <div className="space-y-1">
+      <video src={result.url} controls className={`rounded-lg w-full bg-black ${job.config.aspectRatio === '9:16' ? 'max-h-96' : 'aspect-video'}`} />
+      {onExtend && videoUri && (
+        <button type="button" onClick={() => onExtend(videoUri)} className="text-sm text-cyan-400 hover:underline">
+          Extend this clip
+        </button>
+      )}
+    </div>
+  );
+};
+
+const VideoJobQueue: React.FC<VideoJobQueueProps> = ({ jobs, onCancel, onRemove, onSelectKey, onExtend }) => {
+  const [now, setNow] = useState(Date.now());
+  const hasActiveJobs = jobs.some(isVideoJobActive);
+
+  // Tick only while something is running, for the elapsed times.
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs]);
+
+  return (
+    <ul className="space-y-3">
+      {jobs.map(job => {
+        const isActive = isVideoJobActive(job);
+        const elapsedMs = (job.finishedAt ?? now) - (job.startedAt ?? job.createdAt);
+        const error = job.status === 'failed' && job.error ? describeError(job.error) : null;
+        return (
+          <li key={job.id} className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-2">
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${statusClasses[job.status]}`}>
+                {statusLabels[job.status]}
+              </span>
+              <p className="flex-grow truncate text-sm text-gray-200" title={job.prompt}>
+                {job.config.extendVideoUri && <span className="text-gray-500">Extension: </span>}
+                {job.prompt || <span className="italic text-gray-500">Animated image</span>}
+              </p>
+              <span className="text-xs text-gray-500 flex-shrink-0">
+                {[job.config.aspectRatio, job.config.resolution, job.config.numberOfVideos > 1 ? `×${job.config.numberOfVideos}` : ''].filter(Boolean).join(' · ')}
+              </span>
+              {job.status !== 'queued' && (
+                <span className="text-xs text-gray-400 tabular-nums flex-shrink-0">{formatDuration(Math.max(0, elapsedMs) / 1000)}</span>
+              )}
+              {isActive ? (
+                <button type="button" onClick={() => onCancel(job.id)} className="text-sm text-red-400 hover:text-red-300 flex-shrink-0">
+                  Cancel
+                </button>
+              ) : (
+                <button type="button" onClick={() => onRemove(job.id)} className="text-gray-500 hover:text-white flex-shrink-0" aria-label="Remove from queue" title="Remove from queue">
+                  <ClearIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {(job.status === 'generating' || job.status === 'fetching') && (
+              <div className="w-full h-1 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full w-full bg-cyan-500 animate-pulse" />
+              </div>
+            )}
+            {error && (
+              <div className="text-sm text-red-400">
+                <p>{error.message}</p>
+                {error.isQuotaError && (
+                  <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Learn more about billing</a>
+                )}
+                {error.isKeyError && (
+                  <button type="button" onClick={onSelectKey} className="text-cyan-400 hover:underline">Select API Key</button>
+                )}
+              </div>
+            )}
+            {job.status === 'completed' && (job.mediaItemIds ?? []).map(mediaItemId => (
+              <JobVideo key={mediaItemId} job={job} mediaItemId={mediaItemId} onExtend={onExtend && (videoUri => onExtend(job, videoUri))} />
+            ))}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default VideoJobQueue;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { VoiceAlias } from '../types';
+import { PREBUILT_VOICES, saveVoiceAlias, deleteVoiceAlias } from '../services/voiceCatalog';
+import ClearIcon from './icons/ClearIcon';
+
+interface VoiceAliasManagerProps {
+  aliases: VoiceAlias[];
+  onAliasesChange: (aliases: VoiceAlias[]) => void;
+}
+
+const inputClassName = "p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200";
+
+const VoiceAliasManager: React.FC<VoiceAliasManagerProps> = ({ aliases, onAliasesChange }) => {
+  const [name, setName] = useState('');
+  const [baseVoice, setBaseVoice] = useState(PREBUILT_VOICES[0].name);
+  const [stylePrompt, setStylePrompt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    if (aliases.some(a => a.name === trimmedName) || PREBUILT_VOICES.some(v => v.name === trimmedName)) {
+      setError(`"${trimmedName}" is already a voice name.`);
+      return;
+    }
+    try {
+      const saved = await saveVoiceAlias({ name: trimmedName, baseVoice, stylePrompt: stylePrompt.trim() });
+      onAliasesChange([...aliases, saved]);
+      setName('');
+      setStylePrompt('');
+      setError(null);
+    } catch (err) {
+      console.error("Failed to save voice alias:", err);
+      setError("Could not save the voice. Please try again.");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteVoiceAlias(id);
+      onAliasesChange(aliases.filter(a => a.id !== id));
+    } catch (err) {
+      console.error("Failed to delete voice alias:", err);
+      setError("Could not delete the voice. Please try again.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1">
+        {aliases.map(alias => (
+          <li key={alias.id} className="flex items-center gap-2 text-sm">
+            <span className="font-medium text-gray-200">{alias.name}</span>
+            <span className="text-gray-400 truncate">
+              {alias.baseVoice}{alias.stylePrompt && ` · "${alias.stylePrompt}"`}
+            </span>
+            {alias.builtIn ? (
+              <span className="ml-auto text-xs text-gray-500">Built in</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleDelete(alias.id)}
+                className="ml-auto p-1 text-gray-400 hover:text-red-400"
+                aria-label={`Delete ${alias.name}`}
+              >
+                <ClearIcon className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Alias name, e.g. Narrator"
+          className={inputClassName}
+          aria-label="Alias name"
+        />
+        <select value={baseVoice} onChange={(e) => setBaseVoice(e.target.value)} className={inputClassName} aria-label="Base voice">
+          {PREBUILT_VOICES.map(voice => (
+            <option key={voice.name} value={voice.name}>{voice.name} · {voice.description}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={stylePrompt}
+          onChange={(e) => setStylePrompt(e.target.value)}
+          placeholder="Default style, e.g. Read this in a calm, warm tone"
+          className={`sm:col-span-2 ${inputClassName}`}
+          aria-label="Default speaking style"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="sm:col-span-2 bg-cyan-600 text-white p-2 rounded-md hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200"
+        >
+          Add voice alias
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default VoiceAliasManager;
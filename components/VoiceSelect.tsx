@@ -0,0 +1,102 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { VoiceAlias } from '../types';
+import { PREBUILT_VOICES, getVoicePreview, resolveVoice } from '../services/voiceCatalog';
+import PlayIcon from './icons/PlayIcon';
+import StopIcon from './icons/StopIcon';
+
+interface VoiceSelectProps {
+  value: string;
+  onChange: (voice: string) => void;
+  aliases: VoiceAlias[];
+  disabled?: boolean;
+  id?: string;
+  className?: string;
+  ariaLabel?: string;
+}
+
+const VoiceSelect: React.FC<VoiceSelectProps> = ({ value, onChange, aliases, disabled = false, id, className = '', ariaLabel = 'Select voice' }) => {
+  const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Bumped on every start and stop so a preview that finishes loading late is not played.
+  const previewRequestRef = useRef(0);
+
+  const stopPreview = () => {
+    previewRequestRef.current++;
+    if (audioRef.current) {
+      audioRef.current.pause();
+      URL.revokeObjectURL(audioRef.current.src);
+      audioRef.current = null;
+    }
+    setPreviewState('idle');
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const handlePreview = async () => {
+    if (previewState !== 'idle') {
+      stopPreview();
+      return;
+    }
+    const request = ++previewRequestRef.current;
+    setPreviewState('loading');
+    try {
+      const blob = await getVoicePreview(resolveVoice(value, aliases));
+      if (request !== previewRequestRef.current) return;
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.onended = stopPreview;
+      audioRef.current = audio;
+      await audio.play();
+      setPreviewState('playing');
+    } catch (err) {
+      console.error("Failed to play voice preview:", err);
+      if (request === previewRequestRef.current) stopPreview();
+    }
+  };
+
+  // Keep a voice from an older generation selectable even if it is no longer listed.
+  const isKnown = aliases.some(a => a.name === value) || PREBUILT_VOICES.some(v => v.name === value);
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => {
+          stopPreview();
+          onChange(e.target.value);
+        }}
+        disabled={disabled}
+        className="flex-grow min-w-0 p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
+        aria-label={ariaLabel}
+      >
+        {!isKnown && <option value={value}>{value}</option>}
+        <optgroup label="Aliases">
+          {aliases.map(alias => (
+            <option key={alias.id} value={alias.name}>
+              {alias.name} ({alias.baseVoice}{alias.stylePrompt ? `, ${alias.stylePrompt}` : ''})
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Prebuilt voices">
+          {PREBUILT_VOICES.map(voice => (
+            <option key={voice.name} value={voice.name}>
+              {voice.name} · {voice.description} · {voice.language}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      <button
+        type="button"
+        onClick={handlePreview}
+        disabled={disabled}
+        className={`p-2 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ${previewState === 'loading' ? 'animate-pulse' : ''}`}
+        aria-label={previewState === 'idle' ? `Preview ${value}` : 'Stop preview'}
+        title={previewState === 'idle' ? 'Preview voice' : 'Stop preview'}
+      >
+        {previewState === 'idle' ? <PlayIcon className="w-4 h-4" /> : <StopIcon className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+};
+
+export default VoiceSelect;
@@ -1,6 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { generateAudio } from '../../services/geminiService';
-import { playAudio } from '../../utils/audioUtils';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { AudioLibraryItem, DialogueLine, DialogueSpeaker, SpeechDelivery, VoiceAlias } from '../../types';
+import { getMaxDialogueSpeakers, getMediaModel } from '../../services/aiService';
+import { saveMediaItem } from '../../services/mediaLibrary';
+import { listVoiceAliases, resolveVoice } from '../../services/voiceCatalog';
+import { buildStylePrompt, DEFAULT_SPEECH_DELIVERY } from '../../services/speechDelivery';
+import { splitTextForSpeech, splitDialogueForSpeech, estimateSpeechDuration, synthesizeSpeechChunk, synthesizeSpeechChunks, type SpeechCast, type SpeechChunkStatus, type SpeechChunkUpdate } from '../../services/speechSynthesis';
+import { concatPcm, formatDuration, pcmToWav } from '../../utils/audioUtils';
+import { formatDialogueScript, parseDialogueScript } from '../../utils/dialogueScript';
+import AudioPlayer from '../AudioPlayer';
+import DialogueEditor from '../DialogueEditor';
+import VoiceSelect from '../VoiceSelect';
+import VoiceAliasManager from '../VoiceAliasManager';
+import SpeechDeliveryControls from '../SpeechDeliveryControls';
 import SendIcon from '../icons/SendIcon';
 import AudioIcon from '../icons/AudioIcon';
 import MicrophoneIcon from '../icons/MicrophoneIcon';
@@ -61,26 +72,97 @@ declare global {
     };
 }
 
-const voices = ['Human', 'Kore', 'Puck', 'Charon', 'Prabhas'];
+const TTS_SAMPLE_RATE = 24000;
 
-const AudioMode: React.FC = () => {
-  const [text, setText] = useState('');
-  const [voice, setVoice] = useState('Human');
+type ScriptFormat = 'narration' | 'dialogue';
+
+const scriptFormats: { value: ScriptFormat; label: string }[] = [
+  { value: 'narration', label: 'Narration' },
+  { value: 'dialogue', label: 'Dialogue' },
+];
+
+const defaultDialogueSpeakers: DialogueSpeaker[] = [
+  { name: 'Host', voice: 'Kore' },
+  { name: 'Guest', voice: 'Puck' },
+];
+
+function initialDialogueLines(item?: AudioLibraryItem): DialogueLine[] {
+  if (item?.settings.speakers) {
+    try {
+      return parseDialogueScript(item.prompt);
+    } catch (err) {
+      console.error("Failed to restore dialogue script:", err);
+    }
+  }
+  return defaultDialogueSpeakers.map(speaker => ({ speaker: speaker.name, text: '' }));
+}
+
+const chunkStatusStyles: Record<SpeechChunkStatus, string> = {
+  pending: 'bg-gray-700 text-gray-400',
+  generating: 'bg-cyan-700 text-white animate-pulse',
+  done: 'bg-green-700 text-white',
+  failed: 'bg-red-600 text-white hover:bg-red-500',
+};
+
+interface ChunkProgress {
+  text: string;
+  status: SpeechChunkStatus;
+  attempt: number;
+  error?: string;
+}
+
+// The chunks of the current generation, kept so failed ones can be retried in place.
+interface SpeechRun {
+  prompt: string;
+  settings: AudioLibraryItem['settings'];
+  cast: SpeechCast;
+  texts: string[];
+  pcm: (Uint8Array | null)[];
+}
+
+interface AudioModeProps {
+  // Library item whose settings prefill the form.
+  initialItem?: AudioLibraryItem;
+}
+
+const AudioMode: React.FC<AudioModeProps> = ({ initialItem }) => {
+  const isDialogueItem = !!initialItem?.settings.speakers;
+  const [format, setFormat] = useState<ScriptFormat>(isDialogueItem ? 'dialogue' : 'narration');
+  const [text, setText] = useState(isDialogueItem ? '' : initialItem?.prompt ?? '');
+  const [voice, setVoice] = useState(isDialogueItem ? 'Human' : initialItem?.settings.voice ?? 'Human');
+  const [dialogueLines, setDialogueLines] = useState<DialogueLine[]>(() => initialDialogueLines(initialItem));
+  const [delivery, setDelivery] = useState<SpeechDelivery>(initialItem?.settings.delivery ?? DEFAULT_SPEECH_DELIVERY);
+  const [dialogueSpeakers, setDialogueSpeakers] = useState<DialogueSpeaker[]>(initialItem?.settings.speakers ?? defaultDialogueSpeakers);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [generated, setGenerated] = useState(false);
+  const [audio, setAudio] = useState<{ pcm: Uint8Array; createdAt: number } | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const [chunks, setChunks] = useState<ChunkProgress[]>([]);
+  const [voiceAliases, setVoiceAliases] = useState<VoiceAlias[]>([]);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const runRef = useRef<SpeechRun | null>(null);
+
+  const scriptLines = useMemo(
+    () => dialogueLines.filter(line => line.text.trim()).map(line => ({ speaker: line.speaker.trim(), text: line.text.trim() })),
+    [dialogueLines],
+  );
+  const script = format === 'narration' ? text : formatDialogueScript(scriptLines);
+  const plannedChunks = useMemo(
+    () => (format === 'narration' ? splitTextForSpeech(text) : splitDialogueForSpeech(scriptLines)),
+    [format, text, scriptLines],
+  );
+  const estimatedDuration = useMemo(() => estimateSpeechDuration(script), [script]);
+  const hasScript = script.trim().length > 0;
 
   useEffect(() => {
-    // Initialize AudioContext
-    if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    }
+    listVoiceAliases()
+      .then(setVoiceAliases)
+      .catch(err => console.error("Failed to load voice aliases:", err));
+  }, []);
 
+  useEffect(() => {
     // Initialize SpeechRecognition
     const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
     if (SpeechRecognitionAPI) {
@@ -131,28 +213,63 @@ const AudioMode: React.FC = () => {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!text.trim() || isLoading) return;
+  const updateChunk = (index: number, update: SpeechChunkUpdate) => {
+    setChunks(prev => prev.map((chunk, i) => (i === index ? { ...chunk, ...update } : chunk)));
+  };
 
-    const audioContext = audioContextRef.current;
-    if (!audioContext) {
-        setError("Audio context is not available.");
-        return;
+  // Stitches the track once every chunk has audio; otherwise leaves the failed ones for retry.
+  const finishRun = (run: SpeechRun) => {
+    const failedCount = run.pcm.filter(pcm => !pcm).length;
+    if (failedCount > 0) {
+      setError(`${failedCount} of ${run.texts.length} parts failed to generate. Retry them to finish the track.`);
+      return;
     }
+    const pcm = concatPcm(run.pcm as Uint8Array[]);
+    setAudio({ pcm, createdAt: Date.now() });
+    saveMediaItem({
+      kind: 'audio',
+      prompt: run.prompt,
+      model: getMediaModel('audio'),
+      blob: pcmToWav(pcm, TTS_SAMPLE_RATE, 1),
+      mimeType: 'audio/wav',
+      settings: run.settings,
+    }).catch(err => console.error("Failed to save audio to library:", err));
+  };
 
-    if (audioContext.state === 'suspended') {
-        audioContext.resume();
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasScript || isLoading) return;
+    if (format === 'dialogue') {
+      const names = dialogueSpeakers.map(speaker => speaker.name.trim());
+      if (names.some(name => !name || name.includes(':')) || new Set(names).size !== names.length) {
+        setError("Each speaker needs a unique name without a colon.");
+        return;
+      }
     }
 
+    const texts = plannedChunks;
+    const speakers = dialogueSpeakers.map(speaker => ({ ...speaker, name: speaker.name.trim() }));
+    // Aliases are resolved here so the provider only ever sees prebuilt voice names.
+    const castVoice = (name: string) => {
+      const resolved = resolveVoice(name, voiceAliases);
+      return { voice: resolved.voice, stylePrompt: buildStylePrompt(delivery, resolved.stylePrompt) };
+    };
+    const cast: SpeechCast = format === 'narration'
+      ? castVoice(voice)
+      : { speakers: speakers.map(speaker => ({ name: speaker.name, ...castVoice(speaker.voice) })) };
+    const settings = format === 'narration'
+      ? { voice, delivery }
+      : { voice: speakers.map(speaker => speaker.voice).join(', '), speakers, delivery };
+    const run: SpeechRun = { prompt: script, settings, cast, texts, pcm: [] };
+    runRef.current = run;
+    setChunks(texts.map(chunkText => ({ text: chunkText, status: 'pending', attempt: 0 })));
     setIsLoading(true);
     setError(null);
-    setGenerated(false);
+    setAudio(null);
 
     try {
-      const base64Audio = await generateAudio(text, voice);
-      await playAudio(base64Audio, audioContext);
-      setGenerated(true);
+      run.pcm = await synthesizeSpeechChunks(texts, cast, { onChunkUpdate: updateChunk });
+      finishRun(run);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to generate audio: ${errorMessage}`);
@@ -161,67 +278,182 @@ const AudioMode: React.FC = () => {
     }
   };
 
+  const handleRetryChunks = async (indexes: number[]) => {
+    const run = runRef.current;
+    if (!run || isLoading || indexes.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    await Promise.all(indexes.map(async index => {
+      try {
+        run.pcm[index] = await synthesizeSpeechChunk(run.texts[index], run.cast, index, { onChunkUpdate: updateChunk });
+      } catch (err) {
+        console.error(`Retry of speech chunk ${index + 1} failed:`, err);
+      }
+    }));
+    finishRun(run);
+    setIsLoading(false);
+  };
+
+  const completedChunks = chunks.filter(chunk => chunk.status === 'done').length;
+  const failedChunkIndexes = chunks.flatMap((chunk, i) => (chunk.status === 'failed' ? [i] : []));
+  const showChunkProgress = chunks.length > 1 && !audio && (isLoading || failedChunkIndexes.length > 0);
+
   return (
-    <div className="flex flex-col items-center justify-start h-full gap-6 pt-8">
+    <div className="flex flex-col items-center justify-start h-full gap-6 pt-8 overflow-y-auto">
       <div className="w-full max-w-2xl space-y-4">
         <h2 className="text-xl font-semibold text-center text-gray-300">Text-to-Speech</h2>
         <p className="text-center text-gray-400">Enter text or use the microphone to have it read aloud.</p>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="voice-select" className="block mb-2 text-sm font-medium text-gray-400">Select a Voice</label>
-            <select
-              id="voice-select"
-              value={voice}
-              onChange={(e) => setVoice(e.target.value)}
-              disabled={isLoading}
-              className="w-full p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
-              aria-label="Select voice"
-            >
-              {voices.map(v => (
-                <option key={v} value={v}>{v}</option>
-              ))}
-            </select>
-          </div>
-          <div className="flex items-start gap-3">
-            <textarea
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="e.g., Hello world! Or click the mic to speak."
-              disabled={isLoading}
-              className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 resize-none"
-              rows={3}
-            />
-            <div className="flex flex-col gap-2">
-                {speechSupported && (
+          <fieldset className="flex items-center justify-center gap-1 p-1 bg-gray-800 rounded-lg w-fit mx-auto">
+            <legend className="sr-only">Script format</legend>
+            {scriptFormats.map(option => (
+              <div key={option.value}>
+                <input
+                  type="radio"
+                  id={`format-${option.value}`}
+                  name="script-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  disabled={isLoading}
+                  className="sr-only"
+                />
+                <label
+                  htmlFor={`format-${option.value}`}
+                  className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                    format === option.value ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </label>
+              </div>
+            ))}
+          </fieldset>
+          <details className="bg-gray-800 rounded-lg border border-gray-700 p-3" open={!!initialItem?.settings.delivery}>
+            <summary className="cursor-pointer text-sm font-medium text-gray-400">Style, pace and language</summary>
+            <div className="mt-3">
+              <SpeechDeliveryControls delivery={delivery} onChange={setDelivery} disabled={isLoading} />
+            </div>
+          </details>
+          {format === 'narration' ? (
+            <>
+              <div>
+                <label htmlFor="voice-select" className="block mb-2 text-sm font-medium text-gray-400">Select a Voice</label>
+                <VoiceSelect id="voice-select" value={voice} onChange={setVoice} aliases={voiceAliases} disabled={isLoading} />
+              </div>
+              <div className="flex items-start gap-3">
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder="e.g., Hello world! Or click the mic to speak."
+                  disabled={isLoading}
+                  className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 resize-none"
+                  rows={6}
+                />
+                <div className="flex flex-col gap-2">
+                    {speechSupported && (
+                        <button
+                            type="button"
+                            onClick={handleToggleListening}
+                            disabled={isLoading}
+                            className={`p-3 rounded-lg transition duration-200 flex-shrink-0 ${
+                                isListening 
+                                ? 'bg-red-600 hover:bg-red-500 text-white animate-pulse' 
+                                : 'bg-gray-600 hover:bg-gray-500 text-white'
+                            } disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed`}
+                            aria-label={isListening ? "Stop listening" : "Start listening"}
+                        >
+                            <MicrophoneIcon />
+                        </button>
+                    )}
                     <button
-                        type="button"
-                        onClick={handleToggleListening}
-                        disabled={isLoading}
-                        className={`p-3 rounded-lg transition duration-200 flex-shrink-0 ${
-                            isListening 
-                            ? 'bg-red-600 hover:bg-red-500 text-white animate-pulse' 
-                            : 'bg-gray-600 hover:bg-gray-500 text-white'
-                        } disabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed`}
-                        aria-label={isListening ? "Stop listening" : "Start listening"}
+                    type="submit"
+                    disabled={isLoading || !text.trim()}
+                    className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0"
+                    aria-label="Generate audio"
                     >
-                        <MicrophoneIcon />
+                    <SendIcon />
                     </button>
-                )}
-                <button
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <DialogueEditor
+                lines={dialogueLines}
+                speakers={dialogueSpeakers}
+                aliases={voiceAliases}
+                maxSpeakers={getMaxDialogueSpeakers()}
+                disabled={isLoading}
+                onChange={(lines, speakers) => {
+                  setDialogueLines(lines);
+                  setDialogueSpeakers(speakers);
+                }}
+                onError={setError}
+              />
+              <button
                 type="submit"
-                disabled={isLoading || !text.trim()}
-                className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0"
-                aria-label="Generate audio"
-                >
+                disabled={isLoading || !hasScript}
+                className="w-full flex items-center justify-center gap-2 bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200"
+              >
                 <SendIcon />
-                </button>
-            </div>
-          </div>
+                Generate dialogue
+              </button>
+            </>
+          )}
+          {hasScript && (
+            <p className="text-xs text-gray-500">
+              {plannedChunks.length > 1 ? `${plannedChunks.length} parts · ` : ''}Estimated length {formatDuration(estimatedDuration)}
+            </p>
+          )}
         </form>
+        <details className="bg-gray-800 rounded-lg border border-gray-700 p-3">
+          <summary className="cursor-pointer text-sm font-medium text-gray-400">Custom voices</summary>
+          <div className="mt-3">
+            <VoiceAliasManager aliases={voiceAliases} onAliasesChange={setVoiceAliases} />
+          </div>
+        </details>
       </div>
 
       <div className="w-full max-w-2xl min-h-[150px] bg-gray-800 rounded-lg flex items-center justify-center border border-gray-700">
-        {isLoading && (
+        {showChunkProgress && (
+          <div className="w-full p-4 space-y-3">
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>{isLoading ? 'Generating audio...' : 'Generation incomplete'}</span>
+              <span>{completedChunks} / {chunks.length} parts</span>
+            </div>
+            <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={chunks.length} aria-valuenow={completedChunks}>
+              <div className="h-full bg-cyan-500 transition-all duration-200" style={{ width: `${(completedChunks / chunks.length) * 100}%` }} />
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {chunks.map((chunk, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => handleRetryChunks([index])}
+                  disabled={isLoading || chunk.status !== 'failed'}
+                  className={`w-8 h-8 rounded text-xs font-medium transition-colors duration-200 disabled:cursor-default ${chunkStatusStyles[chunk.status]}`}
+                  title={chunk.status === 'failed' ? `Part ${index + 1} failed: ${chunk.error}. Click to retry.` : `Part ${index + 1}${chunk.attempt > 1 ? ` (attempt ${chunk.attempt})` : ''}: ${chunk.text.slice(0, 80)}`}
+                  aria-label={`Part ${index + 1}: ${chunk.status}`}
+                >
+                  {index + 1}
+                </button>
+              ))}
+            </div>
+            {!isLoading && failedChunkIndexes.length > 0 && (
+              <button
+                type="button"
+                onClick={() => handleRetryChunks(failedChunkIndexes)}
+                className="px-3 py-1 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-cyan-600 hover:text-white transition-colors duration-200"
+              >
+                Retry failed parts
+              </button>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+        )}
+        {isLoading && !showChunkProgress && (
           <div className="flex flex-col items-center gap-2 text-gray-400">
             <svg className="animate-spin h-8 w-8 text-cyan-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -230,16 +462,14 @@ const AudioMode: React.FC = () => {
             <span>Generating audio...</span>
           </div>
         )}
-        {error && <p className="text-red-400 text-center px-4">{error}</p>}
-        {generated && !isLoading && (
-            <div className="text-center text-green-400">
-                <p>Audio played successfully!</p>
-            </div>
+        {error && !showChunkProgress && <p className="text-red-400 text-center px-4">{error}</p>}
+        {audio && !isLoading && (
+            <AudioPlayer pcm={audio.pcm} sampleRate={TTS_SAMPLE_RATE} fileName={`mani-ai-audio-${audio.createdAt}`} autoPlay />
         )}
-         {!isLoading && !error && !generated && (
+         {!isLoading && !error && !audio && (
             <div className="text-center text-gray-500">
                 <AudioIcon className="w-16 h-16 mx-auto mb-2" />
-                <p>Your generated audio will play automatically.</p>
+                <p>Your generated audio will play here and can be downloaded as WAV or MP3.</p>
             </div>
         )}
       </div>
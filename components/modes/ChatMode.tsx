@@ -1,24 +1,70 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Message, ChatPersonality } from '../../types';
-import { sendMessageToAI, clearChatHistory } from '../../services/geminiService';
+import type { Attachment, Message, ChatPersona, Conversation } from '../../types';
+import { streamMessageToAI, clearChatHistory } from '../../services/aiService';
+import { attachmentSizeBytes, fileToAttachment } from '../../utils/fileUtils';
+import { createConversation, listConversations, saveConversation, deleteConversation, DEFAULT_CONVERSATION_TITLE } from '../../services/conversationStore';
+import { listPersonas, resolvePersona, DEFAULT_PERSONA_ID } from '../../services/personaStore';
 import ChatMessage from '../ChatMessage';
 import ChatInput from '../ChatInput';
+import ConversationSidebar from '../ConversationSidebar';
+import PersonaManager from '../PersonaManager';
 import ClearIcon from '../icons/ClearIcon';
 
-const personalities: { id: ChatPersonality; label: string; description: string }[] = [
-    { id: 'standard', label: 'Standard', description: "Balanced and helpful responses." },
-    { id: 'fast', label: 'Fast', description: "Quick, low-latency answers." },
-    { id: 'creative', label: 'Creative', description: "For complex queries needing deeper thought." },
-];
+const initialMessage: Message = { role: 'model', text: "Hello! I'm your friendly Mani Ai assistant. Choose a persona and let's chat!" };
 
-const initialMessage: Message = { role: 'model', text: "Hello! I'm your friendly Mani Ai assistant. Choose a personality and let's chat!" };
+const MAX_TITLE_LENGTH = 40;
 
 const ChatMode: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([initialMessage]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [personas, setPersonas] = useState<ChatPersona[]>([]);
+  const [showPersonas, setShowPersonas] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [personality, setPersonality] = useState<ChatPersonality>('standard');
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Last `updatedAt` written to storage per conversation, so only changed conversations are saved.
+  const savedVersionsRef = useRef(new Map<string, number>());
+
+  const activeConversation = conversations.find(c => c.id === activeId) ?? null;
+  const messages = activeConversation?.messages ?? [initialMessage];
+  const usedAttachmentBytes = messages.reduce((sum, m) => sum + (m.attachments ?? []).reduce((total, a) => total + attachmentSizeBytes(a), 0), 0);
+  const persona = resolvePersona(activeConversation?.personaId ?? DEFAULT_PERSONA_ID, personas);
+
+  useEffect(() => {
+    listPersonas()
+      .then(setPersonas)
+      .catch(err => {
+        console.error("Failed to load personas:", err);
+        setError("Could not load your personas. Only the standard persona is available.");
+      });
+  }, []);
+
+  useEffect(() => {
+    listConversations()
+      .then(stored => {
+        stored.forEach(c => savedVersionsRef.current.set(c.id, c.updatedAt));
+        const conversationList = stored.length > 0 ? stored : [createConversation(DEFAULT_PERSONA_ID, [initialMessage])];
+        setConversations(conversationList);
+        setActiveId(conversationList[0].id);
+      })
+      .catch(err => {
+        console.error("Failed to load saved conversations:", err);
+        setError("Could not load saved conversations. New messages will not be saved.");
+        const conversation = createConversation(DEFAULT_PERSONA_ID, [initialMessage]);
+        setConversations([conversation]);
+        setActiveId(conversation.id);
+      });
+  }, []);
+
+  useEffect(() => {
+    for (const conversation of conversations) {
+      if (savedVersionsRef.current.get(conversation.id) === conversation.updatedAt) continue;
+      savedVersionsRef.current.set(conversation.id, conversation.updatedAt);
+      saveConversation(conversation).catch(err => console.error("Failed to save conversation:", err));
+    }
+  }, [conversations]);
 
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -26,67 +72,161 @@ const ChatMode: React.FC = () => {
     }
   }, [messages]);
 
-  const handleSendMessage = async (inputText: string) => {
-    if (!inputText.trim()) return;
+  const updateConversation = (id: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === id ? update(c) : c)));
+  };
+
+  const handleSendMessage = async (inputText: string, files: File[]) => {
+    if ((!inputText.trim() && files.length === 0) || !activeConversation) return;
 
-    const userMessage: Message = { role: 'user', text: inputText };
-    setMessages(prevMessages => [...prevMessages, userMessage]);
+    let attachments: Attachment[];
+    try {
+      attachments = await Promise.all(files.map(fileToAttachment));
+    } catch (err) {
+      console.error("Failed to read attachments:", err);
+      setError("Could not read the attached files. Please try again.");
+      return;
+    }
+
+    // The chat session is rebuilt from the messages before this one if it is not cached.
+    const conversation = activeConversation;
+    const userMessage: Message = { role: 'user', text: inputText, ...(attachments.length > 0 && { attachments }) };
+    const title = inputText.trim() || files[0]?.name || DEFAULT_CONVERSATION_TITLE;
+    updateConversation(conversation.id, c => ({
+      ...c,
+      title: c.title === DEFAULT_CONVERSATION_TITLE ? title.slice(0, MAX_TITLE_LENGTH) : c.title,
+      messages: [...c.messages, userMessage],
+      updatedAt: Date.now(),
+    }));
     setIsLoading(true);
     setError(null);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      const aiResponse = await sendMessageToAI(inputText, personality);
-      const modelMessage: Message = { role: 'model', text: aiResponse };
-      setMessages(prevMessages => [...prevMessages, modelMessage]);
+      let started = false;
+      for await (const partialText of streamMessageToAI(userMessage, conversation, persona, abortController.signal)) {
+        if (!partialText) continue;
+        const modelMessage: Message = { role: 'model', text: partialText };
+        if (!started) {
+          started = true;
+          setIsStreaming(true);
+          updateConversation(conversation.id, c => ({ ...c, messages: [...c.messages, modelMessage] }));
+        } else {
+          updateConversation(conversation.id, c => ({ ...c, messages: [...c.messages.slice(0, -1), modelMessage] }));
+        }
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to get response from Mani Ai: ${errorMessage}`);
-      const errorResponseMessage: Message = { role: 'model', text: "Sorry, I'm having trouble connecting right now. Please try again later." };
-      setMessages(prevMessages => [...prevMessages, errorResponseMessage]);
+      const errorResponseMessage: Message = { role: 'model', text: "Sorry, I'm having trouble connecting right now. Please try again later.", isError: true };
+      updateConversation(conversation.id, c => ({ ...c, messages: [...c.messages, errorResponseMessage] }));
     } finally {
+      abortControllerRef.current = null;
+      updateConversation(conversation.id, c => ({ ...c, updatedAt: Date.now() }));
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClearChat = () => {
-    if (messages.length > 1) {
-      clearChatHistory(personality);
-      setMessages([initialMessage]);
+    if (activeConversation && messages.length > 1) {
+      abortControllerRef.current?.abort();
+      clearChatHistory(activeConversation.id);
+      updateConversation(activeConversation.id, c => ({ ...c, messages: [initialMessage], updatedAt: Date.now() }));
       setError(null);
       setIsLoading(false); // Reset loading state just in case
     }
   };
 
+  const handleSelectPersona = (id: string) => {
+    if (!activeConversation) return;
+    // Drop the cached session so the next message recreates it with the new persona and the same history.
+    clearChatHistory(activeConversation.id);
+    updateConversation(activeConversation.id, c => ({ ...c, personaId: id, updatedAt: Date.now() }));
+  };
+
+  const handleCreateConversation = () => {
+    const conversation = createConversation(persona.id, [initialMessage]);
+    setConversations(prev => [conversation, ...prev]);
+    setActiveId(conversation.id);
+    setError(null);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    setActiveId(id);
+    setError(null);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    updateConversation(id, c => ({ ...c, title, updatedAt: Date.now() }));
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+    } catch (err) {
+      console.error("Failed to delete conversation:", err);
+      setError("Could not delete the conversation. Please try again.");
+      return;
+    }
+    clearChatHistory(id);
+    savedVersionsRef.current.delete(id);
+    const remaining = conversations.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      const conversation = createConversation(persona.id, [initialMessage]);
+      setConversations([conversation]);
+      setActiveId(conversation.id);
+    } else {
+      setConversations(remaining);
+      if (id === activeId) {
+        setActiveId(remaining[0].id);
+      }
+    }
+  };
+
+  const sortedConversations = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
+
   return (
-    <div className="flex flex-col h-full">
+    <div className="flex flex-col md:flex-row h-full gap-4">
+      <ConversationSidebar
+        conversations={sortedConversations}
+        personas={personas}
+        activeId={activeId}
+        disabled={isLoading}
+        onSelect={handleSelectConversation}
+        onCreate={handleCreateConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+      />
+      <div className="flex flex-col h-full flex-grow min-w-0">
         <div className="pb-4 flex-shrink-0">
             <div className="flex flex-col md:flex-row items-center justify-center gap-2">
-                <fieldset className="flex-grow flex flex-col sm:flex-row justify-center items-center gap-2 p-1 bg-gray-800 rounded-lg w-full md:w-auto">
-                    <legend className="sr-only">Choose a chat personality</legend>
-                    {personalities.map(p => (
-                        <div key={p.id} className="w-full sm:w-auto">
-                            <input
-                                type="radio"
-                                id={p.id}
-                                name="personality"
-                                value={p.id}
-                                checked={personality === p.id}
-                                onChange={() => setPersonality(p.id)}
-                                className="sr-only"
-                            />
-                            <label
-                                htmlFor={p.id}
-                                className={`w-full text-center block px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
-                                    personality === p.id
-                                    ? 'bg-cyan-600 text-white shadow'
-                                    : 'text-gray-300 hover:bg-gray-700 hover:text-white'
-                                }`}
-                            >
-                                {p.label}
-                            </label>
-                        </div>
-                    ))}
-                </fieldset>
+                <div className="flex-grow flex items-center gap-2 p-1 bg-gray-800 rounded-lg w-full md:w-auto">
+                    <select
+                        value={persona.id}
+                        onChange={(e) => handleSelectPersona(e.target.value)}
+                        disabled={isLoading}
+                        className="flex-grow px-3 py-2 rounded-md text-sm bg-gray-700 text-gray-200 border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                        aria-label="Chat persona"
+                    >
+                        {(personas.length > 0 ? personas : [persona]).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <button
+                        onClick={() => setShowPersonas(show => !show)}
+                        className={`flex-shrink-0 px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                            showPersonas ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                        }`}
+                        aria-expanded={showPersonas}
+                    >
+                        Manage personas
+                    </button>
+                </div>
                 <button
                     onClick={handleClearChat}
                     disabled={messages.length <= 1}
@@ -97,13 +237,18 @@ const ChatMode: React.FC = () => {
                     <span>Clear Chat</span>
                 </button>
             </div>
-            <p className="text-center text-sm text-gray-400 mt-2">{personalities.find(p => p.id === personality)?.description}</p>
+            <p className="text-center text-sm text-gray-400 mt-2">{persona.description}</p>
+            {showPersonas && (
+                <div className="mt-2">
+                    <PersonaManager personas={personas} onPersonasChange={setPersonas} />
+                </div>
+            )}
         </div>
         <div ref={chatContainerRef} className="flex-grow overflow-y-auto space-y-6 pr-4 -mr-4">
             {messages.map((msg, index) => (
               <ChatMessage key={index} message={msg} />
             ))}
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start items-center gap-3">
                 <div className="flex-shrink-0">
                     <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-cyan-500 to-blue-500 flex items-center justify-center">
@@ -124,8 +269,9 @@ const ChatMode: React.FC = () => {
             {error && <p className="text-red-400 text-center">{error}</p>}
         </div>
         <div className="pt-4 flex-shrink-0">
-            <ChatInput onSendMessage={handleSendMessage} isLoading={isLoading} />
+            <ChatInput onSendMessage={handleSendMessage} isLoading={isLoading} onStop={handleStop} usedAttachmentBytes={usedAttachmentBytes} />
         </div>
+      </div>
     </div>
   );
 };
@@ -1,11 +1,17 @@
 import React, { useState } from 'react';
-import { generateImage } from '../../services/geminiService';
+import type { ImageAspectRatio, ImageLibraryItem, ImageMimeType } from '../../types';
+import { generateImage, getImageCapabilities, getMediaModel, type GeneratedImage, type ImageGenerationOptions } from '../../services/aiService';
+import { saveMediaItem, urlToBlob } from '../../services/mediaLibrary';
 import SendIcon from '../icons/SendIcon';
 import ImageIcon from '../icons/ImageIcon';
+import DownloadIcon from '../icons/DownloadIcon';
+import CopyIcon from '../icons/CopyIcon';
+import RefreshIcon from '../icons/RefreshIcon';
+import EditIcon from '../icons/EditIcon';
+import ImageEditor from '../ImageEditor';
+import PromptToolbar from '../PromptToolbar';
 
-type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
-
-const aspectRatios: { value: AspectRatio, label: string }[] = [
+const aspectRatios: { value: ImageAspectRatio, label: string }[] = [
     { value: '1:1', label: 'Square' },
     { value: '16:9', label: 'Landscape' },
     { value: '9:16', label: 'Portrait' },
@@ -13,24 +19,74 @@ const aspectRatios: { value: AspectRatio, label: string }[] = [
     { value: '3:4', label: 'Tall' },
 ];
 
-const ImageMode: React.FC = () => {
-  const [prompt, setPrompt] = useState('');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+const outputFormats: { value: ImageMimeType, label: string, extension: string }[] = [
+    { value: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+    { value: 'image/png', label: 'PNG', extension: 'png' },
+];
+
+type ImageTab = 'generate' | 'edit';
+
+const imageTabs: { value: ImageTab, label: string }[] = [
+    { value: 'generate', label: 'Generate' },
+    { value: 'edit', label: 'Edit' },
+];
+
+interface GalleryImage extends GeneratedImage {
+  prompt: string;
+  options: ImageGenerationOptions;
+}
+
+const COPY_FEEDBACK_MS = 2000;
+
+async function saveImagesToLibrary(images: GalleryImage[]): Promise<void> {
+  for (const image of images) {
+    await saveMediaItem({
+      kind: 'image',
+      prompt: image.prompt,
+      model: getMediaModel('image'),
+      blob: await urlToBlob(image.url),
+      mimeType: image.options.outputMimeType,
+      settings: {
+        aspectRatio: image.options.aspectRatio,
+        outputMimeType: image.options.outputMimeType,
+        negativePrompt: image.options.negativePrompt,
+        seed: image.seed,
+      },
+    });
+  }
+}
+
+interface ImageModeProps {
+  // Library item whose settings prefill the form.
+  initialItem?: ImageLibraryItem;
+}
+
+const ImageMode: React.FC<ImageModeProps> = ({ initialItem }) => {
+  const capabilities = getImageCapabilities();
+  // Edits reopen in the editor, starting from the edited image.
+  const [tab, setTab] = useState<ImageTab>(initialItem?.settings.edited ? 'edit' : 'generate');
+  const [editSource, setEditSource] = useState<Blob | undefined>(initialItem?.settings.edited ? initialItem.blob : undefined);
+  const [prompt, setPrompt] = useState(initialItem && !initialItem.settings.edited ? initialItem.prompt : '');
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(initialItem?.settings.aspectRatio ?? '1:1');
+  const [numberOfImages, setNumberOfImages] = useState(1);
+  const [outputMimeType, setOutputMimeType] = useState<ImageMimeType>(initialItem?.settings.outputMimeType ?? 'image/jpeg');
+  const [negativePrompt, setNegativePrompt] = useState(initialItem?.settings.negativePrompt ?? '');
+  const [seed, setSeed] = useState(initialItem?.settings.seed !== undefined ? String(initialItem.settings.seed) : '');
+  const [images, setImages] = useState<GalleryImage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!prompt.trim() || isLoading) return;
-
+  const generate = async (generationPrompt: string, options: ImageGenerationOptions) => {
     setIsLoading(true);
     setError(null);
-    setImageUrl(null);
+    setImages([]);
 
     try {
-      const result = await generateImage(prompt, aspectRatio);
-      setImageUrl(result);
+      const results = await generateImage(generationPrompt, options);
+      const galleryImages = results.map(result => ({ ...result, prompt: generationPrompt, options }));
+      setImages(galleryImages);
+      saveImagesToLibrary(galleryImages).catch(err => console.error("Failed to save images to library:", err));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to generate image: ${errorMessage}`);
@@ -39,86 +95,292 @@ const ImageMode: React.FC = () => {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || isLoading) return;
+
+    const options: ImageGenerationOptions = { aspectRatio, numberOfImages, outputMimeType };
+    if (capabilities.supportsNegativePrompt && negativePrompt.trim()) {
+      options.negativePrompt = negativePrompt.trim();
+    }
+    if (capabilities.supportsSeed && seed.trim() && Number.isInteger(Number(seed))) {
+      options.seed = Number(seed);
+    }
+    await generate(prompt, options);
+  };
+
+  const handleCopyPrompt = async (image: GalleryImage, index: number) => {
+    try {
+      await navigator.clipboard.writeText(image.prompt);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), COPY_FEEDBACK_MS);
+    } catch (err) {
+      console.error("Failed to copy prompt:", err);
+    }
+  };
+
+  // Restores the form to this image's settings, pinning its seed when supported, and generates again.
+  const handleRegenerateLike = async (image: GalleryImage) => {
+    const options: ImageGenerationOptions = { ...image.options };
+    if (capabilities.supportsSeed && image.seed !== undefined) {
+      options.seed = image.seed;
+    }
+    setPrompt(image.prompt);
+    setAspectRatio(options.aspectRatio);
+    setNumberOfImages(options.numberOfImages);
+    setOutputMimeType(options.outputMimeType);
+    setNegativePrompt(options.negativePrompt ?? '');
+    setSeed(options.seed !== undefined ? String(options.seed) : '');
+    await generate(image.prompt, options);
+  };
+
+  const handleEdit = async (image: GalleryImage) => {
+    try {
+      setEditSource(await urlToBlob(image.url));
+      setTab('edit');
+    } catch (err) {
+      console.error("Failed to open image for editing:", err);
+    }
+  };
+
+  const extensionFor = (mimeType: ImageMimeType) => outputFormats.find(f => f.value === mimeType)?.extension ?? 'img';
+
   return (
-    <div className="flex flex-col items-center justify-start h-full gap-6 pt-8">
-      <div className="w-full max-w-2xl space-y-4">
-        <h2 className="text-xl font-semibold text-center text-gray-300">Image Generation</h2>
-        <p className="text-center text-gray-400">Describe the image you want to create and choose an aspect ratio.</p>
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-                <label htmlFor="aspect-ratio" className="block mb-2 text-sm font-medium text-gray-400">Aspect Ratio</label>
-                <fieldset id="aspect-ratio" className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg flex-wrap justify-center">
-                    <legend className="sr-only">Choose an aspect ratio</legend>
-                    {aspectRatios.map(ar => (
-                        <div key={ar.value} className="flex-grow">
-                            <input
-                                type="radio"
-                                id={ar.value}
-                                name="aspect-ratio"
-                                value={ar.value}
-                                checked={aspectRatio === ar.value}
-                                onChange={() => setAspectRatio(ar.value)}
-                                className="sr-only"
-                                disabled={isLoading}
-                            />
-                            <label
-                                htmlFor={ar.value}
-                                className={`w-full text-center block px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
-                                    aspectRatio === ar.value
-                                    ? 'bg-cyan-600 text-white shadow'
-                                    : 'text-gray-300 hover:bg-gray-700 hover:text-white'
-                                }`}
-                            >
-                                {ar.label} ({ar.value})
-                            </label>
-                        </div>
-                    ))}
-                </fieldset>
-            </div>
-
-            <div className="flex items-start gap-3">
-                <textarea
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="e.g., A photo of an astronaut riding a horse on Mars"
-                    disabled={isLoading}
-                    className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 resize-none"
-                    rows={3}
-                />
-                <button
-                    type="submit"
-                    disabled={isLoading || !prompt.trim()}
-                    className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0 self-stretch"
-                    aria-label="Generate image"
-                >
-                    <SendIcon />
-                </button>
-            </div>
-        </form>
+    <div className="flex flex-col items-center justify-start h-full gap-6 pt-8 overflow-y-auto">
+      <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+        <legend className="sr-only">Choose generate or edit</legend>
+        {imageTabs.map(option => (
+          <div key={option.value}>
+            <input
+              type="radio"
+              id={`image-tab-${option.value}`}
+              name="image-tab"
+              value={option.value}
+              checked={tab === option.value}
+              onChange={() => setTab(option.value)}
+              className="sr-only"
+            />
+            <label
+              htmlFor={`image-tab-${option.value}`}
+              className={`block px-4 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                tab === option.value ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </label>
+          </div>
+        ))}
+      </fieldset>
+
+      {/* Kept mounted while generating, so the edit history survives switching tabs. */}
+      <div className={`w-full flex justify-center ${tab === 'edit' ? '' : 'hidden'}`}>
+        <ImageEditor initialImage={editSource} />
       </div>
+      {tab === 'generate' && (
+        <>
+          <div className="w-full max-w-2xl space-y-4">
+            <h2 className="text-xl font-semibold text-center text-gray-300">Image Generation</h2>
+            <p className="text-center text-gray-400">Describe the image you want to create and choose an aspect ratio.</p>
+        
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label htmlFor="aspect-ratio" className="block mb-2 text-sm font-medium text-gray-400">Aspect Ratio</label>
+                    <fieldset id="aspect-ratio" className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg flex-wrap justify-center">
+                        <legend className="sr-only">Choose an aspect ratio</legend>
+                        {aspectRatios.map(ar => (
+                            <div key={ar.value} className="flex-grow">
+                                <input
+                                    type="radio"
+                                    id={ar.value}
+                                    name="aspect-ratio"
+                                    value={ar.value}
+                                    checked={aspectRatio === ar.value}
+                                    onChange={() => setAspectRatio(ar.value)}
+                                    className="sr-only"
+                                    disabled={isLoading}
+                                />
+                                <label
+                                    htmlFor={ar.value}
+                                    className={`w-full text-center block px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                                        aspectRatio === ar.value
+                                        ? 'bg-cyan-600 text-white shadow'
+                                        : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                                    }`}
+                                >
+                                    {ar.label} ({ar.value})
+                                </label>
+                            </div>
+                        ))}
+                    </fieldset>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="image-count" className="block mb-2 text-sm font-medium text-gray-400">Number of Images</label>
+                        <select
+                            id="image-count"
+                            value={numberOfImages}
+                            onChange={(e) => setNumberOfImages(Number(e.target.value))}
+                            disabled={isLoading}
+                            className="w-full p-2 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                        >
+                            {Array.from({ length: capabilities.maxImages }, (_, i) => i + 1).map(count => (
+                                <option key={count} value={count}>{count}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <span className="block mb-2 text-sm font-medium text-gray-400">Output Format</span>
+                        <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+                            <legend className="sr-only">Choose an output format</legend>
+                            {outputFormats.map(format => (
+                                <div key={format.value} className="flex-grow">
+                                    <input
+                                        type="radio"
+                                        id={`format-${format.extension}`}
+                                        name="output-format"
+                                        value={format.value}
+                                        checked={outputMimeType === format.value}
+                                        onChange={() => setOutputMimeType(format.value)}
+                                        className="sr-only"
+                                        disabled={isLoading}
+                                    />
+                                    <label
+                                        htmlFor={`format-${format.extension}`}
+                                        className={`w-full text-center block px-4 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                                            outputMimeType === format.value
+                                            ? 'bg-cyan-600 text-white shadow'
+                                            : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                                        }`}
+                                    >
+                                        {format.label}
+                                    </label>
+                                </div>
+                            ))}
+                        </fieldset>
+                    </div>
+                    <div>
+                        <label htmlFor="negative-prompt" className="block mb-2 text-sm font-medium text-gray-400">Negative Prompt</label>
+                        <input
+                            id="negative-prompt"
+                            type="text"
+                            value={negativePrompt}
+                            onChange={(e) => setNegativePrompt(e.target.value)}
+                            placeholder={capabilities.supportsNegativePrompt ? "e.g., blurry, text, watermark" : "Not supported by this model"}
+                            disabled={isLoading || !capabilities.supportsNegativePrompt}
+                            title={capabilities.supportsNegativePrompt ? undefined : capabilities.unsupportedReason}
+                            className="w-full p-2 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="image-seed" className="block mb-2 text-sm font-medium text-gray-400">Seed</label>
+                        <input
+                            id="image-seed"
+                            type="number"
+                            step={1}
+                            value={seed}
+                            onChange={(e) => setSeed(e.target.value)}
+                            placeholder={capabilities.supportsSeed ? "Random" : "Not supported by this model"}
+                            disabled={isLoading || !capabilities.supportsSeed}
+                            title={capabilities.supportsSeed ? undefined : capabilities.unsupportedReason}
+                            className="w-full p-2 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                        />
+                    </div>
+                </div>
+                {(!capabilities.supportsNegativePrompt || !capabilities.supportsSeed) && capabilities.unsupportedReason && (
+                    <p className="text-xs text-gray-500">{capabilities.unsupportedReason}</p>
+                )}
 
-      <div className="w-full max-w-2xl min-h-[300px] bg-gray-800 rounded-lg flex items-center justify-center border border-gray-700 aspect-video">
-        {isLoading && (
-          <div className="flex flex-col items-center gap-2 text-gray-400">
-            <svg className="animate-spin h-8 w-8 text-cyan-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            <span>Generating image...</span>
+                <PromptToolbar prompt={prompt} onPromptChange={setPrompt} target="image" disabled={isLoading} />
+                <div className="flex items-start gap-3">
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder="e.g., A photo of an astronaut riding a horse on Mars"
+                        disabled={isLoading}
+                        className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50 resize-none"
+                        rows={3}
+                    />
+                    <button
+                        type="submit"
+                        disabled={isLoading || !prompt.trim()}
+                        className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition duration-200 flex-shrink-0 self-stretch"
+                        aria-label="Generate image"
+                    >
+                        <SendIcon />
+                    </button>
+                </div>
+            </form>
           </div>
-        )}
-        {error && <p className="text-red-400 text-center px-4">{error}</p>}
-        {imageUrl && !isLoading && (
-          <img src={imageUrl} alt="Generated image" className="rounded-lg max-w-full max-h-full object-contain" />
-        )}
-        {!isLoading && !error && !imageUrl && (
-            <div className="text-center text-gray-500">
-                <ImageIcon className="w-16 h-16 mx-auto mb-2" />
-                <p>Your generated image will appear here.</p>
-            </div>
-        )}
-      </div>
+
+          <div className={`w-full max-w-2xl min-h-[300px] bg-gray-800 rounded-lg border border-gray-700 ${images.length > 0 && !isLoading ? 'p-3' : 'flex items-center justify-center'}`}>
+            {isLoading && (
+              <div className="flex flex-col items-center gap-2 text-gray-400">
+                <svg className="animate-spin h-8 w-8 text-cyan-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <span>Generating {numberOfImages > 1 ? `${numberOfImages} images` : 'image'}...</span>
+              </div>
+            )}
+            {error && <p className="text-red-400 text-center px-4">{error}</p>}
+            {images.length > 0 && !isLoading && (
+              <div className={`grid gap-3 ${images.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+                {images.map((image, index) => (
+                  <figure key={index} className="group relative bg-gray-900 rounded-lg overflow-hidden">
+                    <img src={image.url} alt={`Generated image ${index + 1}`} className="w-full h-full object-contain" />
+                    <figcaption className="absolute inset-x-0 bottom-0 flex items-center justify-end gap-1 p-2 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      {image.seed !== undefined && <span className="mr-auto text-xs text-gray-300">Seed {image.seed}</span>}
+                      <a
+                        href={image.url}
+                        download={`mani-ai-image-${index + 1}.${extensionFor(image.options.outputMimeType)}`}
+                        className="p-2 rounded-md bg-gray-800/80 text-gray-200 hover:text-white"
+                        aria-label={`Download image ${index + 1}`}
+                        title="Download"
+                      >
+                        <DownloadIcon />
+                      </a>
+                      <button
+                        type="button"
+                        onClick={() => handleCopyPrompt(image, index)}
+                        className="p-2 rounded-md bg-gray-800/80 text-gray-200 hover:text-white"
+                        aria-label={`Copy prompt for image ${index + 1}`}
+                        title={copiedIndex === index ? 'Copied!' : 'Copy prompt'}
+                      >
+                        <CopyIcon />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRegenerateLike(image)}
+                        className="p-2 rounded-md bg-gray-800/80 text-gray-200 hover:text-white"
+                        aria-label={`Regenerate like image ${index + 1}`}
+                        title="Regenerate like this"
+                      >
+                        <RefreshIcon />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(image)}
+                        className="p-2 rounded-md bg-gray-800/80 text-gray-200 hover:text-white"
+                        aria-label={`Edit image ${index + 1}`}
+                        title="Edit"
+                      >
+                        <EditIcon />
+                      </button>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
+            {!isLoading && !error && images.length === 0 && (
+                <div className="text-center text-gray-500">
+                    <ImageIcon className="w-16 h-16 mx-auto mb-2" />
+                    <p>Your generated images will appear here.</p>
+                </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 };
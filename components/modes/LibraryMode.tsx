@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import type { MediaKind, MediaLibraryItem } from '../../types';
+import { listMediaItems, deleteMediaItem } from '../../services/mediaLibrary';
+import { SPEECH_LANGUAGES, STYLE_PRESETS } from '../../services/speechDelivery';
+import LibraryIcon from '../icons/LibraryIcon';
+import DownloadIcon from '../icons/DownloadIcon';
+import ClearIcon from '../icons/ClearIcon';
+import RefreshIcon from '../icons/RefreshIcon';
+
+type KindFilter = MediaKind | 'all';
+
+const kindFilters: { value: KindFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'image', label: 'Images' },
+    { value: 'video', label: 'Videos' },
+    { value: 'audio', label: 'Audio' },
+];
+
+const fileExtensions: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'audio/wav': 'wav',
+};
+
+function describeSettings(item: MediaLibraryItem): string {
+    switch (item.kind) {
+        case 'image': {
+            const parts = [item.settings.edited ? 'Edit' : item.settings.aspectRatio, item.settings.outputMimeType === 'image/png' ? 'PNG' : 'JPEG']
+                .filter((part): part is string => !!part);
+            if (item.settings.seed !== undefined) parts.push(`seed ${item.settings.seed}`);
+            return parts.join(' · ');
+        }
+        case 'video':
+            return [item.settings.aspectRatio, item.settings.resolution].filter(Boolean).join(' · ');
+        case 'audio': {
+            const parts = [item.settings.speakers
+                ? `Dialogue: ${item.settings.speakers.map(speaker => `${speaker.name} (${speaker.voice})`).join(', ')}`
+                : `Voice: ${item.settings.voice}`];
+            const delivery = item.settings.delivery;
+            if (delivery) {
+                parts.push(...delivery.presets.map(id => STYLE_PRESETS.find(preset => preset.id === id)?.label ?? id));
+                if (delivery.pace !== 'normal') parts.push(`${delivery.pace} pace`);
+                if (delivery.language) parts.push(SPEECH_LANGUAGES.find(language => language.code === delivery.language)?.label ?? delivery.language);
+            }
+            return parts.join(' · ');
+        }
+    }
+}
+
+interface LibraryModeProps {
+  onReuse: (item: MediaLibraryItem) => void;
+}
+
+const LibraryMode: React.FC<LibraryModeProps> = ({ onReuse }) => {
+  const [items, setItems] = useState<MediaLibraryItem[]>([]);
+  const [objectUrls, setObjectUrls] = useState<Record<string, string>>({});
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listMediaItems()
+      .then(setItems)
+      .catch(err => {
+        console.error("Failed to load media library:", err);
+        setError("Could not load your media library.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    items.forEach(item => { urls[item.id] = URL.createObjectURL(item.blob); });
+    setObjectUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [items]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMediaItem(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+    } catch (err) {
+      console.error("Failed to delete media item:", err);
+      setError("Could not delete the item. Please try again.");
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleItems = items.filter(item =>
+    (kindFilter === 'all' || item.kind === kindFilter) &&
+    (!normalizedQuery || item.prompt.toLowerCase().includes(normalizedQuery) || item.model.toLowerCase().includes(normalizedQuery)));
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div className="flex flex-col md:flex-row items-center gap-3 flex-shrink-0">
+        <h2 className="text-xl font-semibold text-gray-300 md:mr-auto">Media Library</h2>
+        <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+          <legend className="sr-only">Filter by type</legend>
+          {kindFilters.map(filter => (
+            <div key={filter.value}>
+              <input
+                type="radio"
+                id={`library-${filter.value}`}
+                name="library-kind"
+                value={filter.value}
+                checked={kindFilter === filter.value}
+                onChange={() => setKindFilter(filter.value)}
+                className="sr-only"
+              />
+              <label
+                htmlFor={`library-${filter.value}`}
+                className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                  kindFilter === filter.value ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                }`}
+              >
+                {filter.label}
+              </label>
+            </div>
+          ))}
+        </fieldset>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prompts..."
+          className="w-full md:w-64 p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          aria-label="Search library"
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      <div className="flex-grow overflow-y-auto">
+        {!isLoading && visibleItems.length === 0 ? (
+          <div className="text-center text-gray-500 flex flex-col items-center justify-center h-full">
+            <LibraryIcon className="w-16 h-16 mx-auto mb-2" />
+            <p>{items.length === 0 ? 'Images, videos and audio you generate will be saved here.' : 'No items match your filters.'}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visibleItems.map(item => {
+              const url = objectUrls[item.id];
+              return (
+                <article key={item.id} className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden flex flex-col">
+                  <div className="bg-gray-900 aspect-video flex items-center justify-center">
+                    {url && item.kind === 'image' && <img src={url} alt={item.prompt} className="max-h-full max-w-full object-contain" />}
+                    {url && item.kind === 'video' && <video src={url} controls className="max-h-full max-w-full" />}
+                    {url && item.kind === 'audio' && <audio src={url} controls className="w-11/12" />}
+                  </div>
+                  <div className="p-3 flex flex-col gap-1 flex-grow">
+                    <p className="text-sm text-gray-200 line-clamp-2" title={item.prompt}>{item.prompt || <span className="italic text-gray-500">No prompt</span>}</p>
+                    <p className="text-xs text-gray-400">{item.model} · {describeSettings(item)}</p>
+                    <p className="text-xs text-gray-500">{new Date(item.createdAt).toLocaleString()}</p>
+                    <div className="flex items-center gap-2 mt-auto pt-2">
+                      <a
+                        href={url}
+                        download={`mani-ai-${item.kind}-${item.createdAt}.${fileExtensions[item.mimeType] ?? 'bin'}`}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                        Download
+                      </a>
+                      <button
+                        onClick={() => onReuse(item)}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-cyan-600 hover:text-white"
+                      >
+                        <RefreshIcon className="w-4 h-4" />
+                        Reuse settings
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item.id)}
+                        className="ml-auto p-1 text-gray-400 hover:text-red-400"
+                        aria-label="Delete item"
+                      >
+                        <ClearIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </article>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryMode;
@@ -0,0 +1,468 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { MediaLibraryItem, Storyboard, StoryboardShot, VideoAspectRatio } from '../../types';
+import { getActiveProviderId, getVideoModels } from '../../services/aiService';
+import { listMediaItems } from '../../services/mediaLibrary';
+import { createShot, createStoryboard, deleteStoryboard, listStoryboards, saveStoryboard } from '../../services/storyboardStore';
+import { enqueueVideoJob, isVideoJobActive, subscribeToVideoJobs, type VideoJob } from '../../services/videoJobs';
+import { stitchVideos } from '../../utils/videoStitcher';
+import StoryboardIcon from '../icons/StoryboardIcon';
+import ImageIcon from '../icons/ImageIcon';
+import VideoIcon from '../icons/VideoIcon';
+import ClearIcon from '../icons/ClearIcon';
+import ChevronUpIcon from '../icons/ChevronUpIcon';
+import ChevronDownIcon from '../icons/ChevronDownIcon';
+import DownloadIcon from '../icons/DownloadIcon';
+
+const jobStatusText: Partial<Record<VideoJob['status'], string>> = {
+  queued: 'Queued',
+  generating: 'Rendering...',
+  fetching: 'Downloading...',
+  cancelled: 'Render cancelled',
+};
+
+interface StitchProgress {
+  index: number;
+  total: number;
+}
+
+interface StitchedVideo {
+  storyboardId: string;
+  url: string;
+}
+
+// The clip a shot's latest job produced, once it has finished.
+function finishedClipId(shot: StoryboardShot, jobs: VideoJob[]): string | undefined {
+  const job = jobs.find(j => j.id === shot.jobId);
+  return job?.status === 'completed' ? job.mediaItemIds?.[0] : undefined;
+}
+
+function fileName(title: string): string {
+  const slug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'storyboard'}.webm`;
+}
+
+const StoryboardMode: React.FC = () => {
+  const [storyboards, setStoryboards] = useState<Storyboard[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const [mediaItems, setMediaItems] = useState<MediaLibraryItem[]>([]);
+  const [objectUrls, setObjectUrls] = useState<Record<string, string>>({});
+  const [pickingShotId, setPickingShotId] = useState<string | null>(null);
+  const [stitchProgress, setStitchProgress] = useState<StitchProgress | null>(null);
+  const [stitched, setStitched] = useState<StitchedVideo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastSavedRef = useRef<Storyboard | null>(null);
+  const stitchAbortRef = useRef<AbortController | null>(null);
+
+  const storyboard = storyboards.find(sb => sb.id === activeId) ?? null;
+
+  const refreshMedia = useCallback(() => {
+    listMediaItems()
+      .then(items => setMediaItems(items.filter(item => item.kind !== 'audio')))
+      .catch(err => console.error("Failed to load media library:", err));
+  }, []);
+
+  useEffect(() => {
+    listStoryboards()
+      .then(stored => {
+        const list = stored.length > 0 ? stored : [createStoryboard()];
+        setStoryboards(list);
+        setActiveId(list[0].id);
+      })
+      .catch(err => {
+        console.error("Failed to load storyboards:", err);
+        setError("Could not load your storyboards.");
+      });
+    refreshMedia();
+    return () => stitchAbortRef.current?.abort();
+  }, [refreshMedia]);
+
+  // Shots are rendered by the video job manager, so renders carry on in other modes.
+  useEffect(() => subscribeToVideoJobs(setJobs), []);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    mediaItems.forEach(item => { urls[item.id] = URL.createObjectURL(item.blob); });
+    setObjectUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [mediaItems]);
+
+  useEffect(() => {
+    if (!stitched) return;
+    return () => URL.revokeObjectURL(stitched.url);
+  }, [stitched]);
+
+  // Every edit replaces the storyboard object, so this saves each change once.
+  useEffect(() => {
+    if (!storyboard || storyboard === lastSavedRef.current) return;
+    lastSavedRef.current = storyboard;
+    saveStoryboard(storyboard).catch(err => console.error("Failed to save storyboard:", err));
+  }, [storyboard]);
+
+  const updateStoryboard = useCallback((id: string, update: (storyboard: Storyboard) => Storyboard) => {
+    setStoryboards(prev => prev.map(sb => (sb.id === id ? { ...update(sb), updatedAt: Date.now() } : sb)));
+  }, []);
+
+  const updateShot = (storyboardId: string, shotId: string, changes: Partial<StoryboardShot>) => {
+    updateStoryboard(storyboardId, sb => ({
+      ...sb,
+      shots: sb.shots.map(shot => (shot.id === shotId ? { ...shot, ...changes } : shot)),
+    }));
+  };
+
+  // Picks up renders that finished since the shot was queued, including while this mode was closed.
+  useEffect(() => {
+    if (!storyboard) return;
+    const hasNewClips = storyboard.shots.some(shot => {
+      const clipId = finishedClipId(shot, jobs);
+      return clipId && clipId !== shot.clipId;
+    });
+    if (!hasNewClips) return;
+    updateStoryboard(storyboard.id, sb => ({
+      ...sb,
+      shots: sb.shots.map(shot => ({ ...shot, clipId: finishedClipId(shot, jobs) ?? shot.clipId })),
+    }));
+    refreshMedia();
+  }, [jobs, storyboard, updateStoryboard, refreshMedia]);
+
+  const handleNewStoryboard = () => {
+    const created = createStoryboard(storyboard?.aspectRatio);
+    setStoryboards(prev => [created, ...prev]);
+    setActiveId(created.id);
+    setPickingShotId(null);
+  };
+
+  const handleDeleteStoryboard = async () => {
+    if (!storyboard) return;
+    try {
+      await deleteStoryboard(storyboard.id);
+      const remaining = storyboards.filter(sb => sb.id !== storyboard.id);
+      const list = remaining.length > 0 ? remaining : [createStoryboard(storyboard.aspectRatio)];
+      setStoryboards(list);
+      setActiveId(list[0].id);
+    } catch (err) {
+      console.error("Failed to delete storyboard:", err);
+      setError("Could not delete the storyboard. Please try again.");
+    }
+  };
+
+  const moveShot = (index: number, offset: number) => {
+    if (!storyboard) return;
+    updateStoryboard(storyboard.id, sb => {
+      const shots = [...sb.shots];
+      const [shot] = shots.splice(index, 1);
+      shots.splice(index + offset, 0, shot);
+      return { ...sb, shots };
+    });
+  };
+
+  const canRender = (shot: StoryboardShot) => Boolean(shot.prompt.trim() || shot.keyframeId);
+
+  const renderShot = async (storyboardId: string, aspectRatio: VideoAspectRatio, shot: StoryboardShot) => {
+    setError(null);
+    try {
+      if (getActiveProviderId() === 'gemini' && !(await window.aistudio.hasSelectedApiKey())) {
+        await window.aistudio.openSelectKey();
+      }
+      const keyframe = shot.keyframeId ? mediaItems.find(item => item.id === shot.keyframeId) : undefined;
+      if (shot.keyframeId && !keyframe) {
+        throw new Error("Its keyframe was deleted from the library.");
+      }
+      const job = await enqueueVideoJob(shot.prompt, {
+        model: getVideoModels()[0].id,
+        aspectRatio,
+        resolution: '720p',
+        numberOfVideos: 1,
+        imageFile: keyframe ? new File([keyframe.blob], 'keyframe', { type: keyframe.mimeType }) : null,
+      });
+      updateShot(storyboardId, shot.id, { jobId: job.id });
+    } catch (err) {
+      console.error("Failed to queue shot:", err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to queue shot: ${errorMessage}`);
+    }
+  };
+
+  const isShotRendering = (shot: StoryboardShot) => jobs.some(job => job.id === shot.jobId && isVideoJobActive(job));
+  const findClip = (shot: StoryboardShot) => mediaItems.find(item => item.id === shot.clipId && item.kind === 'video');
+
+  const handleRenderMissing = async () => {
+    if (!storyboard) return;
+    for (const shot of storyboard.shots) {
+      if (!findClip(shot) && !isShotRendering(shot) && canRender(shot)) {
+        await renderShot(storyboard.id, storyboard.aspectRatio, shot);
+      }
+    }
+  };
+
+  const handleStitch = async () => {
+    if (!storyboard) return;
+    const clips = storyboard.shots.map(findClip);
+    if (clips.some(clip => !clip)) return;
+
+    const controller = new AbortController();
+    stitchAbortRef.current = controller;
+    setError(null);
+    setStitched(null);
+    setStitchProgress({ index: 0, total: clips.length });
+    try {
+      const blob = await stitchVideos(clips.map(clip => clip!.blob), {
+        onClipStart: (index, total) => setStitchProgress({ index, total }),
+        signal: controller.signal,
+      });
+      setStitched({ storyboardId: storyboard.id, url: URL.createObjectURL(blob) });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to stitch storyboard:", err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to join the shots: ${errorMessage}`);
+    } finally {
+      stitchAbortRef.current = null;
+      setStitchProgress(null);
+    }
+  };
+
+  if (!storyboard) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-500">
+        {error ? <p className="text-red-400">{error}</p> : <p>Loading storyboards...</p>}
+      </div>
+    );
+  }
+
+  const images = mediaItems.filter(item => item.kind === 'image');
+  const isStitching = stitchProgress !== null;
+  const readyCount = storyboard.shots.filter(shot => findClip(shot)).length;
+  const allRendered = storyboard.shots.length > 0 && readyCount === storyboard.shots.length;
+
+  return (
+    <div className="flex flex-col items-center h-full gap-4 overflow-y-auto">
+      <div className="w-full max-w-4xl space-y-4">
+        <div className="flex flex-col md:flex-row items-center gap-3">
+          <input
+            type="text"
+            value={storyboard.title}
+            onChange={(e) => updateStoryboard(storyboard.id, sb => ({ ...sb, title: e.target.value }))}
+            className="w-full md:flex-grow p-2 text-lg font-semibold bg-transparent text-gray-200 rounded-md border border-transparent hover:border-gray-700 focus:border-gray-600 focus:bg-gray-800 focus:outline-none"
+            aria-label="Storyboard title"
+          />
+          <select
+            value={storyboard.id}
+            onChange={(e) => {
+              setActiveId(e.target.value);
+              setPickingShotId(null);
+            }}
+            disabled={isStitching}
+            className="p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+            aria-label="Open storyboard"
+          >
+            {storyboards.map(sb => <option key={sb.id} value={sb.id}>{sb.title || 'Untitled'}</option>)}
+          </select>
+          <button onClick={handleNewStoryboard} disabled={isStitching} className="px-3 py-2 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50">
+            New
+          </button>
+          <button onClick={handleDeleteStoryboard} disabled={isStitching} className="px-3 py-2 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white disabled:opacity-50">
+            Delete
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+            <legend className="sr-only">Choose an aspect ratio</legend>
+            {(['16:9', '9:16'] as VideoAspectRatio[]).map(ar => (
+              <div key={ar}>
+                <input
+                  type="radio"
+                  id={`storyboard-${ar}`}
+                  name="storyboard-aspect-ratio"
+                  value={ar}
+                  checked={storyboard.aspectRatio === ar}
+                  onChange={() => updateStoryboard(storyboard.id, sb => ({ ...sb, aspectRatio: ar }))}
+                  className="sr-only"
+                />
+                <label htmlFor={`storyboard-${ar}`} className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${storyboard.aspectRatio === ar ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}>
+                  {ar === '16:9' ? 'Landscape' : 'Portrait'} ({ar})
+                </label>
+              </div>
+            ))}
+          </fieldset>
+          <p className="text-sm text-gray-400">Applies to shots rendered from now on. Keyframes come from images in your library.</p>
+        </div>
+
+        {error && <p className="text-red-400 text-center">{error}</p>}
+
+        <ol className="space-y-3">
+          {storyboard.shots.map((shot, index) => {
+            const keyframeUrl = shot.keyframeId ? objectUrls[shot.keyframeId] : undefined;
+            const clip = findClip(shot);
+            const clipUrl = clip ? objectUrls[clip.id] : undefined;
+            const job = jobs.find(j => j.id === shot.jobId);
+            const isRendering = isShotRendering(shot);
+            const statusText = job?.status === 'failed'
+              ? `Render failed: ${job.error ?? 'unknown error'}`
+              : job && job.status !== 'completed' ? jobStatusText[job.status] : shot.clipId && !clip ? 'Clip was deleted from the library.' : null;
+            return (
+              <li key={shot.id} className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-3">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <div className="flex sm:flex-col items-center gap-1 text-gray-400">
+                    <span className="text-sm font-semibold w-6 text-center">{index + 1}</span>
+                    <button onClick={() => moveShot(index, -1)} disabled={index === 0 || isStitching} className="p-1 hover:text-white disabled:opacity-30" aria-label="Move shot up">
+                      <ChevronUpIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveShot(index, 1)} disabled={index === storyboard.shots.length - 1 || isStitching} className="p-1 hover:text-white disabled:opacity-30" aria-label="Move shot down">
+                      <ChevronDownIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={() => setPickingShotId(pickingShotId === shot.id ? null : shot.id)}
+                    className={`w-full sm:w-28 aspect-square flex-shrink-0 bg-gray-900 rounded-lg flex items-center justify-center border-2 border-dashed transition-colors overflow-hidden ${pickingShotId === shot.id ? 'border-cyan-500' : 'border-gray-700 hover:border-cyan-500'}`}
+                    aria-label="Choose keyframe"
+                  >
+                    {keyframeUrl ? (
+                      <img src={keyframeUrl} alt="Keyframe" className="object-cover w-full h-full" />
+                    ) : (
+                      <div className="text-center text-gray-500 p-2">
+                        <ImageIcon className="w-8 h-8 mx-auto mb-1" />
+                        <p className="text-xs">Keyframe (optional)</p>
+                      </div>
+                    )}
+                  </button>
+
+                  <div className="flex-grow flex flex-col gap-2">
+                    <textarea
+                      value={shot.prompt}
+                      onChange={(e) => updateShot(storyboard.id, shot.id, { prompt: e.target.value })}
+                      placeholder="Describe this shot..."
+                      rows={3}
+                      className="w-full p-2 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none"
+                    />
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => renderShot(storyboard.id, storyboard.aspectRatio, shot)}
+                        disabled={isRendering || !canRender(shot)}
+                        className="px-3 py-1.5 rounded-md text-sm bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                      >
+                        {clip ? 'Re-render' : 'Render'}
+                      </button>
+                      {statusText && (
+                        <p className={`text-xs truncate ${job?.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`} title={statusText}>{statusText}</p>
+                      )}
+                      <button
+                        onClick={() => updateStoryboard(storyboard.id, sb => ({ ...sb, shots: sb.shots.filter(s => s.id !== shot.id) }))}
+                        disabled={isStitching}
+                        className="ml-auto p-1 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                        aria-label="Remove shot"
+                      >
+                        <ClearIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className={`w-full flex-shrink-0 bg-gray-900 rounded-lg flex items-center justify-center overflow-hidden ${storyboard.aspectRatio === '9:16' ? 'sm:w-28 aspect-[9/16]' : 'sm:w-48 aspect-video'}`}>
+                    {clipUrl ? (
+                      <video src={clipUrl} controls className="w-full h-full object-contain" />
+                    ) : (
+                      <VideoIcon className={`w-8 h-8 text-gray-600 ${isRendering ? 'animate-pulse' : ''}`} />
+                    )}
+                  </div>
+                </div>
+
+                {pickingShotId === shot.id && (
+                  <div className="border-t border-gray-700 pt-3">
+                    {images.length === 0 ? (
+                      <p className="text-sm text-gray-500 text-center">Generate images in Image Gen to use them as keyframes.</p>
+                    ) : (
+                      <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2 max-h-56 overflow-y-auto">
+                        <button
+                          onClick={() => {
+                            updateShot(storyboard.id, shot.id, { keyframeId: undefined });
+                            setPickingShotId(null);
+                          }}
+                          className="aspect-square rounded-md bg-gray-900 border border-gray-700 text-xs text-gray-400 hover:border-cyan-500"
+                        >
+                          None
+                        </button>
+                        {images.map(image => (
+                          <button
+                            key={image.id}
+                            onClick={() => {
+                              updateShot(storyboard.id, shot.id, { keyframeId: image.id });
+                              setPickingShotId(null);
+                            }}
+                            className={`aspect-square rounded-md overflow-hidden border-2 ${shot.keyframeId === image.id ? 'border-cyan-500' : 'border-transparent hover:border-cyan-500'}`}
+                            title={image.prompt}
+                          >
+                            <img src={objectUrls[image.id]} alt={image.prompt} className="object-cover w-full h-full" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {storyboard.shots.length === 0 && (
+          <div className="text-center text-gray-500 py-8">
+            <StoryboardIcon className="w-16 h-16 mx-auto mb-2" />
+            <p>Add shots to build your sequence.</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 pb-4">
+          <button
+            onClick={() => updateStoryboard(storyboard.id, sb => ({ ...sb, shots: [...sb.shots, createShot()] }))}
+            disabled={isStitching}
+            className="px-3 py-2 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50"
+          >
+            Add shot
+          </button>
+          <button
+            onClick={handleRenderMissing}
+            disabled={isStitching || allRendered}
+            className="px-3 py-2 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50"
+          >
+            Render remaining shots
+          </button>
+          <span className="text-sm text-gray-400">{readyCount} of {storyboard.shots.length} shots rendered</span>
+          {isStitching ? (
+            <button onClick={() => stitchAbortRef.current?.abort()} className="ml-auto px-3 py-2 rounded-md text-sm bg-red-600 text-white hover:bg-red-500">
+              Stop joining (shot {stitchProgress.index + 1} of {stitchProgress.total})
+            </button>
+          ) : (
+            <button
+              onClick={handleStitch}
+              disabled={!allRendered}
+              className="ml-auto px-3 py-2 rounded-md text-sm bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+              title={allRendered ? undefined : 'Render every shot first'}
+            >
+              Join shots into one video
+            </button>
+          )}
+        </div>
+        {isStitching && (
+          <p className="text-sm text-gray-400 text-center">Shots are joined in real time; keep this tab open and visible until it finishes.</p>
+        )}
+
+        {stitched && stitched.storyboardId === storyboard.id && (
+          <div className="bg-gray-800 rounded-lg border border-gray-700 p-3 space-y-2 mb-4">
+            <video src={stitched.url} controls className={`rounded-lg w-full bg-black ${storyboard.aspectRatio === '9:16' ? 'max-h-96' : 'aspect-video'}`} />
+            <a
+              href={stitched.url}
+              download={fileName(storyboard.title)}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Download
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardMode;
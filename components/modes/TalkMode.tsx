@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { VoiceAlias } from '../../types';
+import { startConversationSession, stopConversationSession, sendConversationAudio, type ConversationTranscriptUpdate } from '../../services/aiService';
+import { listVoiceAliases, resolveVoice } from '../../services/voiceCatalog';
+import { createPcmBlob } from '../../utils/audioUtils';
+import { createPlaybackQueue, type PlaybackQueue } from '../../utils/audioPlayback';
+import { startMicrophoneCapture, type MicrophoneCapture } from '../../utils/microphoneCapture';
+import ChatMessage from '../ChatMessage';
+import VoiceSelect from '../VoiceSelect';
+import MicrophoneSelect from '../MicrophoneSelect';
+import LevelMeter from '../LevelMeter';
+import TalkIcon from '../icons/TalkIcon';
+import MicrophoneIcon from '../icons/MicrophoneIcon';
+import StopIcon from '../icons/StopIcon';
+
+// The Live API takes 16 kHz PCM in and replies with 24 kHz PCM.
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// About 128 ms per message, short enough that barge-in is picked up quickly.
+const INPUT_FRAME_SAMPLES = 2048;
+
+type TalkStatus = 'idle' | 'starting' | 'active';
+
+interface TalkTurn extends ConversationTranscriptUpdate {
+    id: string;
+}
+
+const TalkMode: React.FC = () => {
+    const [status, setStatus] = useState<TalkStatus>('idle');
+    const [turns, setTurns] = useState<TalkTurn[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [voice, setVoice] = useState('Human');
+    const [voiceAliases, setVoiceAliases] = useState<VoiceAlias[]>([]);
+    const [microphoneId, setMicrophoneId] = useState('');
+    const [inputLevel, setInputLevel] = useState(0);
+    const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+    const transcriptRef = useRef<HTMLDivElement>(null);
+    const microphoneRef = useRef<MicrophoneCapture | null>(null);
+    const playbackRef = useRef<PlaybackQueue | null>(null);
+    // Bumped whenever a conversation ends, so a start that is still opening the microphone gives up.
+    const talkIdRef = useRef(0);
+
+    useEffect(() => {
+        listVoiceAliases()
+            .then(setVoiceAliases)
+            .catch(err => console.error("Failed to load voice aliases:", err));
+        // Cleanup on unmount
+        return () => {
+            stopTalk();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (transcriptRef.current) {
+            transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight;
+        }
+    }, [turns]);
+
+    // Each side's turn stays open until its final update; when the user barges in,
+    // their turn starts before the interrupted reply is closed.
+    const applyTranscript = (update: ConversationTranscriptUpdate) => {
+        setTurns(prev => {
+            let index = -1;
+            for (let i = prev.length - 1; i >= 0; i--) {
+                if (prev[i].role === update.role && !prev[i].isFinal) {
+                    index = i;
+                    break;
+                }
+            }
+            if (index === -1) {
+                return [...prev, { id: crypto.randomUUID(), ...update }];
+            }
+            return prev.map((turn, i) => (i === index ? { id: turn.id, ...update } : turn));
+        });
+    };
+
+    const stopTalk = () => {
+        talkIdRef.current++;
+        stopConversationSession();
+        const microphone = microphoneRef.current;
+        microphoneRef.current = null;
+        microphone?.stop();
+        const playback = playbackRef.current;
+        playbackRef.current = null;
+        playback?.close();
+        setInputLevel(0);
+        setStatus('idle');
+    };
+
+    const startTalk = async () => {
+        const talkId = ++talkIdRef.current;
+        setError(null);
+        setTurns([]);
+        setStatus('starting');
+
+        playbackRef.current = createPlaybackQueue(OUTPUT_SAMPLE_RATE, setIsModelSpeaking);
+        const { voice: voiceName, stylePrompt } = resolveVoice(voice, voiceAliases);
+        startConversationSession({
+            voiceName,
+            systemInstruction: stylePrompt ? `Speak in this style: ${stylePrompt}` : undefined,
+        }, {
+            onAudio: (base64Audio) => playbackRef.current?.enqueue(base64Audio),
+            onTranscript: applyTranscript,
+            onInterrupted: () => playbackRef.current?.clear(),
+            onError: (err) => {
+                setError(err.message);
+                stopTalk();
+            },
+            onClose: stopTalk,
+        });
+        // The session can fail synchronously, e.g. without an API key.
+        if (talkId !== talkIdRef.current) return;
+
+        try {
+            const microphone = await startMicrophoneCapture({
+                deviceId: microphoneId || undefined,
+                sampleRate: INPUT_SAMPLE_RATE,
+                frameSize: INPUT_FRAME_SAMPLES,
+                onAudio: (samples) => sendConversationAudio(createPcmBlob(samples)),
+                onLevel: setInputLevel,
+            });
+            if (talkId !== talkIdRef.current) {
+                microphone.stop();
+                return;
+            }
+            microphoneRef.current = microphone;
+            setStatus('active');
+        } catch (err) {
+            console.error("Error starting conversation:", err);
+            setError("Could not start microphone. Please grant permission and try again.");
+            stopTalk();
+        }
+    };
+
+    const statusText = status === 'starting'
+        ? 'Connecting...'
+        : status === 'active'
+            ? (isModelSpeaking ? 'Speaking... talk over it to interrupt.' : 'Listening...')
+            : 'Press the microphone and start talking.';
+
+    return (
+        <div className="flex flex-col items-center justify-start h-full gap-6 pt-8">
+            <div className="w-full max-w-3xl space-y-4 text-center">
+                <h2 className="text-xl font-semibold text-gray-300">Voice Conversation</h2>
+                <p className="text-gray-400">{statusText}</p>
+
+                <button
+                    onClick={status === 'idle' ? startTalk : stopTalk}
+                    className={`mx-auto w-24 h-24 rounded-full flex items-center justify-center transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 ${
+                        status === 'idle'
+                        ? 'bg-cyan-600 hover:bg-cyan-500 text-white'
+                        : `bg-red-600 hover:bg-red-500 text-white ${isModelSpeaking ? '' : 'animate-pulse'}`
+                    }`}
+                    aria-label={status === 'idle' ? "Start conversation" : "End conversation"}
+                >
+                    {status === 'idle' ? <MicrophoneIcon className="w-12 h-12" /> : <StopIcon className="w-12 h-12" />}
+                </button>
+
+                <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                    <VoiceSelect value={voice} onChange={setVoice} aliases={voiceAliases} disabled={status !== 'idle'} ariaLabel="Reply voice" />
+                    <MicrophoneSelect value={microphoneId} onChange={setMicrophoneId} disabled={status !== 'idle'} className="w-56" />
+                    <LevelMeter level={inputLevel} className="w-32" />
+                </div>
+            </div>
+
+            <div ref={transcriptRef} className="w-full max-w-3xl h-full min-h-[200px] bg-gray-800 rounded-lg border border-gray-700 p-4 overflow-y-auto">
+                {error ? (
+                    <p className="text-red-400 text-center">{error}</p>
+                ) : turns.length > 0 ? (
+                    <div className="space-y-4">
+                        {turns.map(turn => (
+                            <div key={turn.id} className={turn.isFinal ? '' : 'opacity-70'}>
+                                <ChatMessage message={{ role: turn.role, text: turn.text }} />
+                                {turn.interrupted && (
+                                    <p className="text-xs text-gray-500 italic mt-1 ml-12">Interrupted</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="text-center text-gray-500 flex flex-col items-center justify-center h-full">
+                        <TalkIcon className="w-16 h-16 mx-auto mb-2" />
+                        <p>Both sides of the conversation will appear here.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TalkMode;
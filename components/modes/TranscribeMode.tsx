@@ -1,19 +1,60 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { startTranscriptionSession, stopTranscriptionSession, sendAudioForTranscription } from '../../services/geminiService';
-import { createPcmBlob } from '../../utils/audioUtils';
+import type { TranscriptSegment } from '../../types';
+import { startTranscriptionSession, stopTranscriptionSession, sendAudioForTranscription, transcribeFile, type TranscriptionUpdate } from '../../services/aiService';
+import { createPcmBlob, decodeFileToPcm } from '../../utils/audioUtils';
+import { startMicrophoneCapture, type MicrophoneCapture } from '../../utils/microphoneCapture';
+import { downloadBlob } from '../../utils/fileUtils';
+import { exportTranscript, TRANSCRIPT_FORMATS, type TranscriptFormat } from '../../utils/transcriptUtils';
+import TranscriptView from '../TranscriptView';
+import MicrophoneSelect from '../MicrophoneSelect';
+import LevelMeter from '../LevelMeter';
+import DownloadIcon from '../icons/DownloadIcon';
 import MicrophoneIcon from '../icons/MicrophoneIcon';
 import TranscribeIcon from '../icons/TranscribeIcon';
+import AddFileIcon from '../icons/AddFileIcon';
+
+// Matches the 16 kHz PCM that createPcmBlob labels its data with.
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+const STREAM_FRAME_SAMPLES = 4096;
+const STREAM_FRAME_MS = (STREAM_FRAME_SAMPLES / TRANSCRIPTION_SAMPLE_RATE) * 1000;
+// Silence after the file's audio lets the service close the last utterance before the session ends.
+const STREAM_TRAILING_SILENCE_FRAMES = 8;
+const STREAM_FINAL_TURN_WAIT_MS = 3000;
+
+type FileMethod = 'stream' | 'batch';
+
+const fileMethods: { value: FileMethod; label: string; description: string }[] = [
+    { value: 'stream', label: 'Real time', description: 'Plays the file into the live pipeline at normal speed.' },
+    { value: 'batch', label: 'Whole file', description: 'Sends the file in one request; faster, and labels speakers.' },
+];
+
+interface FileJob {
+    name: string;
+    method: FileMethod;
+    // 0-1 while audio is streamed or uploaded; null while waiting on the service.
+    progress: number | null;
+}
 
 const TranscribeMode: React.FC = () => {
     const [isListening, setIsListening] = useState(false);
-    const [transcript, setTranscript] = useState('');
-    const [finalTranscript, setFinalTranscript] = useState('');
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    const [interim, setInterim] = useState<TranscriptSegment | null>(null);
+    // Label applied to new utterances when the provider cannot tell speakers apart.
+    const [currentSpeaker, setCurrentSpeaker] = useState('');
     const [error, setError] = useState<string | null>(null);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [fileMethod, setFileMethod] = useState<FileMethod>('stream');
+    const [fileJob, setFileJob] = useState<FileJob | null>(null);
+    const [microphoneId, setMicrophoneId] = useState('');
+    const [inputLevel, setInputLevel] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const streamTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const streamStopTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const sessionStartedAtRef = useRef(Date.now());
+    const currentSpeakerRef = useRef(currentSpeaker);
+    currentSpeakerRef.current = currentSpeaker;
 
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const streamRef = useRef<MediaStream | null>(null);
+    const microphoneRef = useRef<MicrophoneCapture | null>(null);
 
     useEffect(() => {
         // Cleanup on unmount
@@ -22,51 +63,57 @@ const TranscribeMode: React.FC = () => {
         };
     }, []);
 
-    const startTranscription = async () => {
+    const toSegment = (update: TranscriptionUpdate): TranscriptSegment => ({
+        id: crypto.randomUUID(),
+        text: update.text,
+        startMs: update.startMs,
+        endMs: update.endMs,
+        speaker: update.speaker ?? (currentSpeakerRef.current.trim() || undefined),
+        isFinal: update.isFinal,
+    });
+
+    const resetTranscript = () => {
         setError(null);
-        setTranscript('');
-        setFinalTranscript('');
-        
+        setSegments([]);
+        setInterim(null);
+        sessionStartedAtRef.current = Date.now();
+    };
+
+    // Live microphone audio and streamed files share one session and produce the same segments.
+    const beginSession = () => {
+        startTranscriptionSession({
+            onTranscriptionUpdate: (update) => {
+                const segment = toSegment(update);
+                if (update.isFinal) {
+                    setSegments(prev => [...prev, segment]);
+                    setInterim(null);
+                } else {
+                    setInterim(segment);
+                }
+            },
+            onError: (err) => {
+                setError(err.message);
+                stopTranscription();
+            },
+            onClose: () => {
+                setIsListening(false);
+            },
+        });
+    };
+
+    const startTranscription = async () => {
+        resetTranscript();
+
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = stream;
-
-            const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            inputAudioContextRef.current = inputAudioContext;
-            
-            startTranscriptionSession({
-                onTranscriptionUpdate: (text, isFinal) => {
-                    if (isFinal) {
-                        setFinalTranscript(prev => prev + text + ' ');
-                        setTranscript('');
-                    } else {
-                        setTranscript(text);
-                    }
-                },
-                onError: (err) => {
-                    setError(err.message);
-                    stopTranscription();
-                },
-                onClose: () => {
-                    setIsListening(false);
-                },
+            microphoneRef.current = await startMicrophoneCapture({
+                deviceId: microphoneId || undefined,
+                sampleRate: TRANSCRIPTION_SAMPLE_RATE,
+                frameSize: STREAM_FRAME_SAMPLES,
+                onAudio: (samples) => sendAudioForTranscription(createPcmBlob(samples)),
+                onLevel: setInputLevel,
             });
-            
-            const source = inputAudioContext.createMediaStreamSource(stream);
-            mediaStreamSourceRef.current = source;
-
-            const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                sendAudioForTranscription(pcmBlob);
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContext.destination);
-            
+
+            beginSession();
             setIsListening(true);
         } catch (err) {
             console.error("Error starting transcription:", err);
@@ -75,27 +122,94 @@ const TranscribeMode: React.FC = () => {
         }
     };
 
+    const stopFileStream = () => {
+        if (streamTimerRef.current) {
+            clearInterval(streamTimerRef.current);
+            streamTimerRef.current = null;
+        }
+        if (streamStopTimeoutRef.current) {
+            clearTimeout(streamStopTimeoutRef.current);
+            streamStopTimeoutRef.current = null;
+        }
+    };
+
     const stopTranscription = () => {
         stopTranscriptionSession();
+        stopFileStream();
+        setFileJob(job => (job?.method === 'stream' ? null : job));
 
-        if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-            streamRef.current = null;
-        }
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
+        if (microphoneRef.current) {
+            microphoneRef.current.stop();
+            microphoneRef.current = null;
         }
-        if (mediaStreamSourceRef.current) {
-            mediaStreamSourceRef.current.disconnect();
-            mediaStreamSourceRef.current = null;
+
+        setInputLevel(0);
+        setIsListening(false);
+    };
+
+    // Feeds decoded samples into the live session at playback speed, so segment
+    // times line up with positions in the file.
+    const streamFile = async (file: File) => {
+        const samples = await decodeFileToPcm(file, TRANSCRIPTION_SAMPLE_RATE);
+        beginSession();
+        const totalFrames = Math.ceil(samples.length / STREAM_FRAME_SAMPLES);
+        const silence = new Float32Array(STREAM_FRAME_SAMPLES);
+        let frame = 0;
+        streamTimerRef.current = setInterval(() => {
+            if (frame < totalFrames) {
+                const offset = frame * STREAM_FRAME_SAMPLES;
+                sendAudioForTranscription(createPcmBlob(samples.subarray(offset, offset + STREAM_FRAME_SAMPLES)));
+                setFileJob(job => job && { ...job, progress: (frame + 1) / totalFrames });
+            } else if (frame < totalFrames + STREAM_TRAILING_SILENCE_FRAMES) {
+                sendAudioForTranscription(createPcmBlob(silence));
+            } else {
+                stopFileStream();
+                setFileJob(job => job && { ...job, progress: null });
+                streamStopTimeoutRef.current = setTimeout(stopTranscription, STREAM_FINAL_TURN_WAIT_MS);
+            }
+            frame++;
+        }, STREAM_FRAME_MS);
+    };
+
+    const batchTranscribeFile = async (file: File) => {
+        const updates = await transcribeFile(file, {
+            onUploadProgress: (fraction) => setFileJob(job => job && { ...job, progress: fraction < 1 ? fraction : null }),
+        });
+        setSegments(updates.map(toSegment));
+        setFileJob(null);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
+            setError(`"${file.name}" is not an audio or video file.`);
+            return;
         }
-        if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
-            inputAudioContextRef.current.close();
-            inputAudioContextRef.current = null;
+
+        resetTranscript();
+        setFileJob({ name: file.name, method: fileMethod, progress: fileMethod === 'stream' ? 0 : null });
+        try {
+            if (fileMethod === 'stream') {
+                await streamFile(file);
+            } else {
+                await batchTranscribeFile(file);
+            }
+        } catch (err) {
+            console.error("Error transcribing file:", err);
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Could not transcribe "${file.name}": ${errorMessage}`);
+            stopFileStream();
+            setFileJob(null);
         }
-        
-        setIsListening(false);
+    };
+
+    const handleExport = (format: TranscriptFormat) => {
+        setIsExportMenuOpen(false);
+        const blob = exportTranscript(interim ? [...segments, interim] : segments, format);
+        const stamp = new Date(sessionStartedAtRef.current).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+        downloadBlob(blob, `transcript-${stamp}.${format}`);
     };
 
     const handleToggleListening = () => {
@@ -110,11 +224,12 @@ const TranscribeMode: React.FC = () => {
         <div className="flex flex-col items-center justify-start h-full gap-6 pt-8">
             <div className="w-full max-w-3xl space-y-4 text-center">
                 <h2 className="text-xl font-semibold text-gray-300">Real-time Transcription</h2>
-                <p className="text-gray-400">Click the microphone to start or stop transcribing audio.</p>
+                <p className="text-gray-400">Click the microphone to start or stop transcribing audio, or transcribe a recording.</p>
                 
                 <button
                     onClick={handleToggleListening}
-                    className={`mx-auto w-24 h-24 rounded-full flex items-center justify-center transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 ${
+                    disabled={fileJob !== null}
+                    className={`mx-auto w-24 h-24 rounded-full flex items-center justify-center transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 ${
                         isListening 
                         ? 'bg-red-600 hover:bg-red-500 text-white animate-pulse' 
                         : 'bg-cyan-600 hover:bg-cyan-500 text-white'
@@ -123,18 +238,120 @@ const TranscribeMode: React.FC = () => {
                 >
                     <MicrophoneIcon className="w-12 h-12" />
                 </button>
+
+                <div className="flex items-center justify-center gap-3">
+                    <MicrophoneSelect value={microphoneId} onChange={setMicrophoneId} disabled={isListening || fileJob !== null} className="w-56" />
+                    <LevelMeter level={inputLevel} className="w-40" />
+                </div>
+
+                <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                    <input ref={fileInputRef} type="file" accept="audio/*,video/*" onChange={handleFileChange} className="sr-only" />
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isListening || fileJob !== null}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                        <AddFileIcon className="w-5 h-5" />
+                        Transcribe a file
+                    </button>
+                    <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+                        <legend className="sr-only">File transcription method</legend>
+                        {fileMethods.map(method => (
+                            <div key={method.value}>
+                                <input
+                                    type="radio"
+                                    id={`file-method-${method.value}`}
+                                    name="file-method"
+                                    value={method.value}
+                                    checked={fileMethod === method.value}
+                                    onChange={() => setFileMethod(method.value)}
+                                    disabled={fileJob !== null}
+                                    className="sr-only"
+                                />
+                                <label
+                                    htmlFor={`file-method-${method.value}`}
+                                    title={method.description}
+                                    className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${
+                                        fileMethod === method.value ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                                    }`}
+                                >
+                                    {method.label}
+                                </label>
+                            </div>
+                        ))}
+                    </fieldset>
+                </div>
+
+                {fileJob && (
+                    <div className="space-y-1 text-sm text-gray-400 text-left" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={fileJob.progress === null ? undefined : Math.round(fileJob.progress * 100)}>
+                        <div className="flex items-center justify-between gap-3">
+                            <span className="truncate">
+                                {fileJob.progress === null
+                                    ? `Transcribing ${fileJob.name}...`
+                                    : `${fileJob.method === 'stream' ? 'Streaming' : 'Uploading'} ${fileJob.name}... ${Math.round(fileJob.progress * 100)}%`}
+                            </span>
+                            {fileJob.method === 'stream' && (
+                                <button type="button" onClick={stopTranscription} className="text-red-400 hover:text-red-300 flex-shrink-0">
+                                    Stop
+                                </button>
+                            )}
+                        </div>
+                        <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full bg-cyan-500 transition-all duration-200 ${fileJob.progress === null ? 'animate-pulse' : ''}`}
+                                style={{ width: `${(fileJob.progress ?? 1) * 100}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
             </div>
 
             <div className="w-full max-w-3xl h-full min-h-[200px] bg-gray-800 rounded-lg flex flex-col border border-gray-700 p-4">
-                <h3 className="text-lg font-semibold text-gray-300 mb-2 flex-shrink-0">Transcript</h3>
+                <div className="flex items-center gap-3 mb-2 flex-shrink-0">
+                    <h3 className="text-lg font-semibold text-gray-300 mr-auto">Transcript</h3>
+                    <input
+                        type="text"
+                        value={currentSpeaker}
+                        onChange={(e) => setCurrentSpeaker(e.target.value)}
+                        placeholder="Current speaker (optional)"
+                        className="w-48 p-1.5 text-sm bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                        aria-label="Current speaker"
+                    />
+                    <div className="relative">
+                        <button
+                            type="button"
+                            onClick={() => setIsExportMenuOpen(open => !open)}
+                            disabled={segments.length === 0}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-haspopup="menu"
+                            aria-expanded={isExportMenuOpen}
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            Export
+                        </button>
+                        {isExportMenuOpen && (
+                            <div role="menu" className="absolute right-0 mt-1 w-56 bg-gray-700 border border-gray-600 rounded-md shadow-lg z-10 py-1">
+                                {TRANSCRIPT_FORMATS.map(format => (
+                                    <button
+                                        key={format.value}
+                                        type="button"
+                                        role="menuitem"
+                                        onClick={() => handleExport(format.value)}
+                                        className="block w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-gray-600"
+                                    >
+                                        {format.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
                 <div className="flex-grow overflow-y-auto">
                     {error ? (
                         <p className="text-red-400 text-center">{error}</p>
-                    ) : (finalTranscript || transcript) ? (
-                        <p className="text-gray-200 whitespace-pre-wrap">
-                            <span>{finalTranscript}</span>
-                            <span className="text-gray-400">{transcript}</span>
-                        </p>
+                    ) : (segments.length > 0 || interim) ? (
+                        <TranscriptView segments={segments} interim={interim} onSegmentsChange={setSegments} />
                     ) : (
                         <div className="text-center text-gray-500 flex flex-col items-center justify-center h-full">
                            <TranscribeIcon className="w-16 h-16 mx-auto mb-2" />
@@ -1,116 +1,174 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { generateVideo } from '../../services/geminiService';
+import React, { useState, useEffect } from 'react';
+import type { VideoAspectRatio, VideoLibraryItem, VideoResolution } from '../../types';
+import { getActiveProviderId, getVideoModels, type VideoGenerationConfig, type VideoModelCapabilities } from '../../services/aiService';
+import { cancelVideoJob, enqueueVideoJob, removeVideoJob, subscribeToVideoJobs, type VideoJob } from '../../services/videoJobs';
+import VideoJobQueue from '../VideoJobQueue';
+import ImageSlot from '../ImageSlot';
+import PromptToolbar from '../PromptToolbar';
 import SendIcon from '../icons/SendIcon';
 import VideoIcon from '../icons/VideoIcon';
-import ImageIcon from '../icons/ImageIcon';
 import ClearIcon from '../icons/ClearIcon';
 
-const loadingMessages = [
-    "Warming up the pixels...",
-    "Composing the scene...",
-    "Directing the digital actors...",
-    "Rendering the final cut...",
-    "Adding a touch of magic...",
-];
+// Key selection is provided by the AI Studio host page.
+declare global {
+    interface Window {
+      aistudio: {
+        hasSelectedApiKey: () => Promise<boolean>;
+        openSelectKey: () => Promise<void>;
+      };
+    }
+}
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+interface ExtendSource {
+  videoUri: string;
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+}
+
+/** Checks a request against what the model accepts; returns the first problem, or null. */
+function validateVideoRequest(prompt: string, config: VideoGenerationConfig, model: VideoModelCapabilities): string | null {
+  const hasPrompt = prompt.trim().length > 0;
+  const referenceCount = config.referenceImages?.length ?? 0;
+  if (!hasPrompt && !config.imageFile) {
+    return 'Enter a prompt or add a first frame.';
+  }
+  if (!model.resolutions.includes(config.resolution)) {
+    return `${model.label} does not render ${config.resolution}.`;
+  }
+  if (config.resolution === '1080p' && model.fullHdLandscapeOnly && config.aspectRatio !== '16:9') {
+    return `${model.label} only renders 1080p in landscape.`;
+  }
+  if (config.numberOfVideos > model.maxVideos) {
+    return `${model.label} generates at most ${model.maxVideos} video${model.maxVideos === 1 ? '' : 's'} per request.`;
+  }
+  if (config.lastFrameFile) {
+    if (!model.supportsLastFrame) return `${model.label} does not accept a last frame.`;
+    if (!config.imageFile) return 'A last frame needs a first frame.';
+  }
+  if (referenceCount > 0) {
+    if (model.maxReferenceImages === 0) return `${model.label} does not accept reference images.`;
+    if (referenceCount > model.maxReferenceImages) return `${model.label} accepts at most ${model.maxReferenceImages} reference images.`;
+    if (!hasPrompt) return 'Reference images need a prompt.';
+    if (config.imageFile || config.lastFrameFile) return 'Reference images cannot be combined with first or last frames.';
+  }
+  if (config.extendVideoUri) {
+    if (!model.supportsExtension) return `${model.label} cannot extend clips.`;
+    if (!hasPrompt) return 'Describe what happens next in the clip.';
+    if (config.imageFile || config.lastFrameFile || referenceCount > 0) return 'An extension cannot also use frames or reference images.';
+    if (config.resolution !== '720p') return 'Extensions are rendered at 720p.';
+    if (config.numberOfVideos > 1) return 'Extensions produce one clip at a time.';
+  }
+  return null;
+}
 
-type AspectRatio = '16:9' | '9:16';
+interface VideoModeProps {
+  // Library item whose settings prefill the form.
+  initialItem?: VideoLibraryItem;
+}
 
-const VideoMode: React.FC = () => {
-  const [prompt, setPrompt] = useState('');
+const VideoMode: React.FC<VideoModeProps> = ({ initialItem }) => {
+  const videoModels = getVideoModels();
+  const [modelId, setModelId] = useState(() =>
+    videoModels.some(m => m.id === initialItem?.model) ? initialItem!.model : videoModels[0].id);
+  const [prompt, setPrompt] = useState(initialItem?.prompt ?? '');
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [status, setStatus] = useState<'idle' | 'generating' | 'fetching' | 'completed' | 'error'>('idle');
-  const [error, setError] = useState<{message: string, isQuotaError?: boolean} | null>(null);
+  const [lastFrameFile, setLastFrameFile] = useState<File | null>(null);
+  const [referenceImages, setReferenceImages] = useState<File[]>([]);
+  const [extendSource, setExtendSource] = useState<ExtendSource | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>(initialItem?.settings.aspectRatio ?? '16:9');
+  const [resolution, setResolution] = useState<VideoResolution>(initialItem?.settings.resolution ?? '720p');
+  const [numberOfVideos, setNumberOfVideos] = useState(1);
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [apiKeyOk, setApiKeyOk] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  
+
+  const model = videoModels.find(m => m.id === modelId) ?? videoModels[0];
+  const config: VideoGenerationConfig = {
+    model: model.id,
+    aspectRatio,
+    resolution,
+    numberOfVideos,
+    imageFile,
+    lastFrameFile,
+    referenceImages,
+    extendVideoUri: extendSource?.videoUri,
+  };
+  const validationError = validateVideoRequest(prompt, config, model);
+
   useEffect(() => {
     const checkApiKey = async () => {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
+        // The offline mock provider needs no key.
+        const hasKey = getActiveProviderId() !== 'gemini' || await window.aistudio.hasSelectedApiKey();
         setApiKeyOk(hasKey);
     };
     checkApiKey();
   }, []);
 
-  useEffect(() => {
-    let interval: number;
-    if (status === 'generating') {
-        interval = window.setInterval(() => {
-            setLoadingMessage(prev => {
-                const currentIndex = loadingMessages.indexOf(prev);
-                const nextIndex = (currentIndex + 1) % loadingMessages.length;
-                return loadingMessages[nextIndex];
-            });
-        }, 3000);
-    }
-    return () => clearInterval(interval);
-  }, [status]);
-  
+  // Jobs live in the video job manager, so they keep running while other modes are open.
+  useEffect(() => subscribeToVideoJobs(setJobs), []);
+
   const handleSelectKey = async () => {
     await window.aistudio.openSelectKey();
     setApiKeyOk(true);
     setError(null);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      if (selectedFile.size > 20 * 1024 * 1024) { // 20MB limit
-        setError({ message: "Image file size should be less than 20MB." });
-        return;
-      }
-      setImageFile(selectedFile);
-      setImagePreview(URL.createObjectURL(selectedFile));
-      setVideoUrl(null);
-      setError(null);
+  const handleModelChange = (id: string) => {
+    const next = videoModels.find(m => m.id === id);
+    if (!next) return;
+    setModelId(id);
+    // Carry settings over where the new model allows them; the rest is flagged by validation.
+    setNumberOfVideos(count => Math.min(count, next.maxVideos));
+    if (!next.resolutions.includes(resolution)) setResolution(next.resolutions[0]);
+  };
+
+  // Returns the file if it can be sent, reporting why not otherwise.
+  const acceptImage = (file: File): File | null => {
+    if (!file.type.startsWith('image/')) {
+      setError(`"${file.name}" is not an image.`);
+      return null;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      setError("Image file size should be less than 20MB.");
+      return null;
     }
+    setError(null);
+    return file;
   };
 
-  const handleClearImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+  const handleExtend = (job: VideoJob, videoUri: string) => {
+    if (!model.supportsExtension) {
+      const extender = videoModels.find(m => m.supportsExtension);
+      if (extender) setModelId(extender.id);
     }
+    setExtendSource({ videoUri, prompt: job.prompt, aspectRatio: job.config.aspectRatio });
+    setAspectRatio(job.config.aspectRatio);
+    setResolution('720p');
+    setNumberOfVideos(1);
+    setImageFile(null);
+    setLastFrameFile(null);
+    setReferenceImages([]);
+    setPrompt('');
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!prompt.trim() && !imageFile) || (status !== 'idle' && status !== 'completed' && status !== 'error')) return;
+    if (validationError || isSubmitting) return;
 
-    setStatus('generating');
+    setIsSubmitting(true);
     setError(null);
-    setVideoUrl(null);
-    setLoadingMessage(loadingMessages[0]);
-
     try {
-      for await (const update of generateVideo(prompt, { aspectRatio, imageFile })) {
-        if (update.status === 'fetching') {
-            setStatus(update.status);
-        }
-        if (update.status === 'completed' && update.url) {
-          setVideoUrl(update.url);
-          setStatus('completed');
-        }
-      }
+      await enqueueVideoJob(prompt, config);
+      setExtendSource(null);
     } catch (err) {
+      console.error("Failed to queue video job:", err);
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      
-      if (errorMessage.includes("RESOURCE_EXHAUSTED") || errorMessage.includes("exceeded your current quota")) {
-          setError({
-              message: "You've exceeded your video generation quota. Please check your plan and billing details, or try again later.",
-              isQuotaError: true
-          });
-      } else if (errorMessage.includes("Requested entity was not found")) {
-          setError({ message: "Your API key may be invalid or missing required permissions. Please select a valid key." });
-          setApiKeyOk(false);
-      } else {
-          setError({ message: `Failed to generate video: ${errorMessage}` });
-      }
-      setStatus('error');
+      setError(`Failed to queue video: ${errorMessage}`);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -125,90 +183,170 @@ const VideoMode: React.FC = () => {
               <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline">
                   Learn more about billing
               </a>
-              {error && <p className="text-red-400 mt-4 max-w-md">{error.message}</p>}
+              {error && <p className="text-red-400 mt-4 max-w-md">{error}</p>}
           </div>
       );
   }
 
-  const isLoading = status === 'generating' || status === 'fetching';
+  const isExtending = extendSource !== null;
+  const framesDisabled = isSubmitting || isExtending || referenceImages.length > 0;
+  const referencesDisabled = isSubmitting || isExtending || model.maxReferenceImages === 0 || imageFile !== null || lastFrameFile !== null;
 
   return (
-    <div className="flex flex-col items-center justify-start h-full gap-6 pt-2">
+    <div className="flex flex-col items-center justify-start h-full gap-6 pt-2 overflow-y-auto">
       <div className="w-full max-w-2xl space-y-4">
         <h2 className="text-xl font-semibold text-center text-gray-300">Video Generation</h2>
-        <p className="text-center text-gray-400">Describe the video, or upload an image to animate it. Generation may take minutes.</p>
-        
-        <div className="flex flex-col md:flex-row gap-4 items-start">
-            <div className="w-full md:w-48 flex-shrink-0 space-y-2">
-                <p className="text-sm font-medium text-gray-400 text-center">Starting Image (Optional)</p>
-                <div 
-                    className="relative w-full aspect-square bg-gray-800 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-700 hover:border-cyan-500 transition-colors cursor-pointer group"
-                    onClick={() => !isLoading && fileInputRef.current?.click()}
+        <p className="text-center text-gray-400">Describe the video, animate images, or extend a clip you made. Generation may take minutes; queue as many as you like and keep working in other modes.</p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    value={model.id}
+                    onChange={(e) => handleModelChange(e.target.value)}
+                    disabled={isSubmitting}
+                    className="p-2 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-200 disabled:opacity-50"
+                    aria-label="Video model"
                 >
-                    <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="sr-only" disabled={isLoading} />
-                    {imagePreview ? (
-                        <img src={imagePreview} alt="Preview" className="object-cover w-full h-full rounded-lg" />
-                    ) : (
-                        <div className="text-center text-gray-500 p-2">
-                            <ImageIcon className="w-10 h-10 mx-auto mb-1" />
-                            <p className="text-xs">Click to upload</p>
-                        </div>
-                    )}
-                    {imagePreview && !isLoading && (
-                        <button onClick={handleClearImage} className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity" aria-label="Clear image">
-                           <ClearIcon className="w-4 h-4" />
-                        </button>
-                    )}
-                </div>
-            </div>
-            <form onSubmit={handleSubmit} className="flex-grow space-y-3">
-                <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg justify-center">
+                    {videoModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+                <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
                     <legend className="sr-only">Choose an aspect ratio</legend>
-                    {(['16:9', '9:16'] as AspectRatio[]).map(ar => (
-                        <div key={ar} className="flex-grow">
-                            <input type="radio" id={`vid-${ar}`} name="aspect-ratio" value={ar} checked={aspectRatio === ar} onChange={() => setAspectRatio(ar)} className="sr-only" disabled={isLoading} />
-                            <label htmlFor={`vid-${ar}`} className={`w-full text-center block px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${aspectRatio === ar ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}>
+                    {(['16:9', '9:16'] as VideoAspectRatio[]).map(ar => (
+                        <div key={ar}>
+                            <input type="radio" id={`vid-${ar}`} name="aspect-ratio" value={ar} checked={aspectRatio === ar} onChange={() => setAspectRatio(ar)} className="sr-only" disabled={isSubmitting || isExtending} />
+                            <label htmlFor={`vid-${ar}`} className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 cursor-pointer ${aspectRatio === ar ? 'bg-cyan-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}>
                                 {ar === '16:9' ? 'Landscape' : 'Portrait'} ({ar})
                             </label>
                         </div>
                     ))}
                 </fieldset>
-                <div className="flex items-start gap-3">
-                    <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={imageFile ? "Describe the animation..." : "A majestic lion waking up..."} disabled={isLoading} className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition disabled:opacity-50 resize-none" rows={3}/>
-                    <button type="submit" disabled={isLoading || (!prompt.trim() && !imageFile)} className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition self-stretch" aria-label="Generate video">
-                        <SendIcon />
+                <fieldset className="flex items-center gap-1 p-1 bg-gray-800 rounded-lg">
+                    <legend className="sr-only">Choose a resolution</legend>
+                    {(['720p', '1080p'] as VideoResolution[]).map(res => {
+                        const unavailable = !model.resolutions.includes(res) || (res === '1080p' && isExtending);
+                        return (
+                            <div key={res}>
+                                <input type="radio" id={`vid-res-${res}`} name="resolution" value={res} checked={resolution === res} onChange={() => setResolution(res)} className="sr-only" disabled={isSubmitting || unavailable} />
+                                <label
+                                    htmlFor={`vid-res-${res}`}
+                                    title={unavailable ? 'Not available with these settings' : undefined}
+                                    className={`block px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${unavailable ? 'text-gray-600 cursor-not-allowed' : 'cursor-pointer'} ${resolution === res ? 'bg-cyan-600 text-white shadow' : unavailable ? '' : 'text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    {res}
+                                </label>
+                            </div>
+                        );
+                    })}
+                </fieldset>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Videos
+                    <select
+                        value={numberOfVideos}
+                        onChange={(e) => setNumberOfVideos(Number(e.target.value))}
+                        disabled={isSubmitting || model.maxVideos === 1 || isExtending}
+                        className="p-1.5 bg-gray-700 rounded-md border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+                    >
+                        {Array.from({ length: model.maxVideos }, (_, i) => i + 1).map(count => (
+                            <option key={count} value={count}>{count}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {extendSource ? (
+                <div className="flex items-center gap-3 p-3 bg-gray-800 rounded-lg border border-cyan-700 text-sm">
+                    <VideoIcon className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+                    <p className="flex-grow truncate text-gray-300">
+                        Extending <span className="text-gray-400 italic">{extendSource.prompt || 'an animated image'}</span>. Clips can be extended for two days after they are generated.
+                    </p>
+                    <button type="button" onClick={() => setExtendSource(null)} className="text-gray-400 hover:text-white flex-shrink-0" aria-label="Stop extending">
+                        <ClearIcon className="w-4 h-4" />
                     </button>
                 </div>
-            </form>
-        </div>
+            ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+                    <ImageSlot
+                        label="First frame"
+                        file={imageFile}
+                        onSelect={(file) => setImageFile(acceptImage(file) ?? imageFile)}
+                        onClear={() => {
+                            setImageFile(null);
+                            setLastFrameFile(null);
+                        }}
+                        disabled={framesDisabled}
+                    />
+                    <ImageSlot
+                        label="Last frame"
+                        file={lastFrameFile}
+                        onSelect={(file) => setLastFrameFile(acceptImage(file) ?? lastFrameFile)}
+                        onClear={() => setLastFrameFile(null)}
+                        disabled={framesDisabled || !model.supportsLastFrame || !imageFile}
+                        hint={!model.supportsLastFrame ? 'Not supported by this model' : !imageFile ? 'Add a first frame' : undefined}
+                    />
+                    {Array.from({ length: Math.max(1, model.maxReferenceImages) }, (_, i) => (
+                        <ImageSlot
+                            key={i}
+                            label={`Reference ${i + 1}`}
+                            file={referenceImages[i] ?? null}
+                            onSelect={(file) => {
+                                const accepted = acceptImage(file);
+                                if (!accepted) return;
+                                setReferenceImages(prev => {
+                                    const next = [...prev];
+                                    next[Math.min(i, prev.length)] = accepted;
+                                    return next;
+                                });
+                            }}
+                            onClear={() => setReferenceImages(prev => prev.filter((_, index) => index !== i))}
+                            disabled={referencesDisabled || i > referenceImages.length}
+                            hint={model.maxReferenceImages === 0 ? 'Not supported by this model' : undefined}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <PromptToolbar prompt={prompt} onPromptChange={setPrompt} target="video" disabled={isSubmitting} />
+            <div className="flex items-start gap-3">
+                <textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder={isExtending ? "Describe what happens next..." : imageFile ? "Describe the animation..." : "A majestic lion waking up..."}
+                    disabled={isSubmitting}
+                    className="flex-grow p-3 bg-gray-700 rounded-lg border border-gray-600 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition disabled:opacity-50 resize-none"
+                    rows={3}
+                />
+                <button type="submit" disabled={isSubmitting || validationError !== null} className="bg-cyan-600 text-white p-3 rounded-lg hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition self-stretch" aria-label="Generate video" title={validationError ?? undefined}>
+                    <SendIcon />
+                </button>
+            </div>
+            {/* An empty prompt is the resting state, not worth flagging. */}
+            {validationError && (prompt.trim() || imageFile) && (
+                <p className="text-sm text-yellow-400">{validationError}</p>
+            )}
+        </form>
       </div>
 
-      <div className="w-full max-w-2xl min-h-[300px] bg-gray-800 rounded-lg flex items-center justify-center border border-gray-700 aspect-video">
-        {isLoading && (
-          <div className="flex flex-col items-center gap-2 text-gray-400 p-4 text-center">
-            <svg className="animate-spin h-8 w-8 text-cyan-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            <span>{status === 'generating' ? loadingMessage : 'Fetching your video...'}</span>
-          </div>
-        )}
-        {status === 'error' && error && (
-          <div className="text-red-400 text-center px-4">
-            <p>{error.message}</p>
-            {error.isQuotaError && ( <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline mt-2 inline-block">Learn more about billing</a> )}
-          </div>
-        )}
-        {videoUrl && status === 'completed' && ( <video src={videoUrl} controls className="rounded-lg w-full h-full" /> )}
-        {status === 'idle' && !isLoading && (
+      <div className="w-full max-w-2xl pb-4">
+        {error && <p className="text-red-400 text-center mb-3">{error}</p>}
+        {jobs.length > 0 ? (
+          <VideoJobQueue
+            jobs={jobs}
+            onCancel={cancelVideoJob}
+            onRemove={(id) => removeVideoJob(id).catch(err => console.error("Failed to remove video job:", err))}
+            onSelectKey={handleSelectKey}
+            onExtend={videoModels.some(m => m.supportsExtension) ? handleExtend : undefined}
+          />
+        ) : (
+          <div className="min-h-[300px] bg-gray-800 rounded-lg flex items-center justify-center border border-gray-700 aspect-video">
             <div className="text-center text-gray-500">
                 <VideoIcon className="w-16 h-16 mx-auto mb-2" />
-                <p>Your generated video will appear here.</p>
+                <p>Your generated videos will appear here.</p>
             </div>
+          </div>
         )}
       </div>
     </div>
   );
 };
 
-export default VideoMode;
\ No newline at end of file
+export default VideoMode;
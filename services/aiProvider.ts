@@ -0,0 +1,197 @@
+import type { Blob } from "@google/genai";
+import type { ChatPersona, Conversation, DialogueLine, DialogueSpeaker, ImageAspectRatio, ImageMimeType, MediaKind, Message, VideoAspectRatio, VideoResolution } from "../types";
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface ImageGenerationOptions {
+    aspectRatio: ImageAspectRatio;
+    numberOfImages: number;
+    outputMimeType: ImageMimeType;
+    /** Only sent when the provider's image capabilities allow it. */
+    negativePrompt?: string;
+    seed?: number;
+}
+
+export interface ImageGenerationCapabilities {
+    maxImages: number;
+    supportsNegativePrompt: boolean;
+    supportsSeed: boolean;
+    /** Why the negative prompt or seed is unavailable, shown beside the disabled controls. */
+    unsupportedReason?: string;
+}
+
+export interface GeneratedImage {
+    /** Data URL in the requested output format. */
+    url: string;
+    seed?: number;
+}
+
+/** Generative modes whose prompts can be enhanced. */
+export type PromptTarget = 'image' | 'video';
+
+/** Base64 image data, as sent inline with a request. */
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+export interface ImageEditRequest {
+    image: InlineImage;
+    /** Black and white PNG the size of `image`; white marks the area to change. Without one, the whole image may change. */
+    mask?: InlineImage;
+    prompt: string;
+}
+
+/** What one video model accepts; the UI offers and validates controls against it. */
+export interface VideoModelCapabilities {
+    id: string;
+    label: string;
+    resolutions: VideoResolution[];
+    /** 1080p output is limited to landscape. */
+    fullHdLandscapeOnly: boolean;
+    maxVideos: number;
+    supportsLastFrame: boolean;
+    /** 0 when reference images are not supported. */
+    maxReferenceImages: number;
+    /** Extensions take a clip generated earlier and are limited to 720p. */
+    supportsExtension: boolean;
+}
+
+export interface VideoGenerationConfig {
+    /** One of the provider's `videoModels`. */
+    model: string;
+    aspectRatio: VideoAspectRatio;
+    resolution: VideoResolution;
+    numberOfVideos: number;
+    /** First frame, for image-to-video. */
+    imageFile?: File | null;
+    /** Last frame; only together with a first frame. */
+    lastFrameFile?: File | null;
+    /** Characters or objects to keep consistent; cannot be combined with frames or an extension. */
+    referenceImages?: File[];
+    /** Provider URI of an earlier clip to continue. */
+    extendVideoUri?: string;
+}
+
+export type VideoOperationStatus =
+    | { done: false }
+    | { done: true; videoUris: string[] };
+
+/** A follow-up thread about one file; the file goes out with the first question only. */
+export interface AnalysisSession {
+    ask: (prompt: string) => Promise<string>;
+}
+
+export interface AnalysisOptions {
+    /** Called with a 0-1 fraction while a large file is uploaded before the first answer. */
+    onUploadProgress?: (fraction: number) => void;
+}
+
+export interface SpeechOptions {
+    /** Natural-language delivery instruction, e.g. "Read this in a warm, unhurried tone". */
+    stylePrompt?: string;
+}
+
+export interface TranscriptionUpdate {
+    text: string;
+    /** True once the utterance is complete; interim updates replace each other until then. */
+    isFinal: boolean;
+    /** Milliseconds since the session started. */
+    startMs: number;
+    endMs: number;
+    /** Set by providers that can tell speakers apart. */
+    speaker?: string;
+}
+
+export interface TranscriptionCallbacks {
+    onTranscriptionUpdate: (update: TranscriptionUpdate) => void;
+    onError: (error: Error) => void;
+    onClose: () => void;
+}
+
+export interface TranscriptionSession {
+    sendAudio: (pcmBlob: Blob) => void;
+    close: () => void;
+}
+
+export interface ConversationOptions {
+    /** Prebuilt voice the model replies in. */
+    voiceName: string;
+    systemInstruction?: string;
+}
+
+export interface ConversationTranscriptUpdate {
+    role: 'user' | 'model';
+    /** Everything said so far in the current turn. */
+    text: string;
+    isFinal: boolean;
+    /** Set on a model turn that was cut short because the user spoke over it. */
+    interrupted?: boolean;
+}
+
+export interface ConversationCallbacks {
+    /** Base64 16-bit PCM at 24 kHz mono, in the order it should be played. */
+    onAudio: (base64Audio: string) => void;
+    onTranscript: (update: ConversationTranscriptUpdate) => void;
+    /** The user started talking over the reply; any audio still queued should be dropped. */
+    onInterrupted: () => void;
+    onError: (error: Error) => void;
+    onClose: () => void;
+}
+
+export interface ConversationSession {
+    sendAudio: (pcmBlob: Blob) => void;
+    close: () => void;
+}
+
+/**
+ * One backend for every capability in the suite. Components never talk to a
+ * provider directly; they go through `aiService`, which picks the active one.
+ */
+export interface AIProvider {
+    readonly id: AIProviderId;
+    /** Model names recorded alongside saved generations. */
+    readonly mediaModels: Record<MediaKind, string>;
+    /** Chat models suggested when editing a persona; a persona may name any other model too. */
+    readonly chatModels: string[];
+    /**
+     * Sends a user message, with any attachments, and yields the accumulated reply
+     * text as it streams in. `conversation` holds the turns before this message,
+     * and `persona` the model and settings to answer with.
+     */
+    streamChat(message: Message, conversation: Conversation, persona: ChatPersona, signal?: AbortSignal): AsyncGenerator<string>;
+    clearChat(conversationId: string): void;
+    startAnalysis(file: File, options?: AnalysisOptions): AnalysisSession;
+    readonly imageCapabilities: ImageGenerationCapabilities;
+    generateImage(prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]>;
+    /** Model name recorded alongside edited images. */
+    readonly imageEditModel: string;
+    /** Applies `prompt` to the image and resolves to the edited copy. */
+    editImage(request: ImageEditRequest): Promise<GeneratedImage>;
+    /** Rewrites a terse prompt into a detailed one for the target model; resolves to the new prompt only. */
+    enhancePrompt(prompt: string, target: PromptTarget): Promise<string>;
+    /** Video models on offer, default first. */
+    readonly videoModels: VideoModelCapabilities[];
+    /**
+     * Starts a video generation and resolves to its operation name. The name is
+     * enough to poll the operation again from a later page load.
+     */
+    startVideoGeneration(prompt: string, config: VideoGenerationConfig): Promise<string>;
+    /** Checks an operation once; rejects if the generation failed. */
+    getVideoOperation(operationName: string): Promise<VideoOperationStatus>;
+    downloadVideo(videoUri: string): Promise<globalThis.Blob>;
+    /** Resolves to base64 16-bit PCM at 24 kHz mono. `voiceName` is a prebuilt voice. */
+    generateAudio(text: string, voiceName: string, options?: SpeechOptions): Promise<string>;
+    /** Most speakers a single dialogue request may map to voices. */
+    readonly maxDialogueSpeakers: number;
+    /** Reads a script with one voice per speaker, in the same format as `generateAudio`. */
+    generateDialogueAudio(lines: DialogueLine[], speakers: DialogueSpeaker[]): Promise<string>;
+    startTranscription(callbacks: TranscriptionCallbacks): TranscriptionSession;
+    /**
+     * Transcribes a whole audio or video file in one request and resolves to its
+     * final segments, timed from the start of the file and labelled by speaker.
+     */
+    transcribeFile(file: File, options?: AnalysisOptions): Promise<TranscriptionUpdate[]>;
+    /** Opens a spoken conversation: 16 kHz microphone audio in, spoken replies out. */
+    startConversation(options: ConversationOptions, callbacks: ConversationCallbacks): ConversationSession;
+}
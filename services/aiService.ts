@@ -0,0 +1,207 @@
+import type { Blob } from "@google/genai";
+import type { ChatPersona, Conversation, DialogueLine, DialogueSpeaker, MediaKind, Message } from "../types";
+import type { AIProvider, AIProviderId, AnalysisOptions, AnalysisSession, ConversationCallbacks, ConversationOptions, ConversationSession, GeneratedImage, ImageEditRequest, ImageGenerationCapabilities, ImageGenerationOptions, PromptTarget, SpeechOptions, TranscriptionCallbacks, TranscriptionSession, TranscriptionUpdate, VideoGenerationConfig, VideoModelCapabilities, VideoOperationStatus } from "./aiProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+export type { AnalysisSession, ConversationTranscriptUpdate, GeneratedImage, ImageEditRequest, ImageGenerationOptions, InlineImage, PromptTarget, SpeechOptions, TranscriptionCallbacks, TranscriptionUpdate, VideoGenerationConfig, VideoModelCapabilities } from "./aiProvider";
+
+const providers: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Selected at build time through the AI_PROVIDER variable in .env.local; defaults to Gemini.
+function resolveProvider(): AIProvider {
+  const configured = process.env.AI_PROVIDER;
+  if (configured && configured in providers) {
+    return providers[configured as AIProviderId];
+  }
+  if (configured) {
+    console.warn(`Unknown AI_PROVIDER "${configured}", falling back to Gemini.`);
+  }
+  return geminiProvider;
+}
+
+const provider = resolveProvider();
+
+export function getActiveProviderId(): AIProviderId {
+  return provider.id;
+}
+
+export function getMediaModel(kind: MediaKind): string {
+  return provider.mediaModels[kind];
+}
+
+// For Chat
+export function clearChatHistory(conversationId: string): void {
+  provider.clearChat(conversationId);
+}
+
+export function getChatModels(): string[] {
+  return provider.chatModels;
+}
+
+export function streamMessageToAI(message: Message, conversation: Conversation, persona: ChatPersona, signal?: AbortSignal): AsyncGenerator<string> {
+  return provider.streamChat(message, conversation, persona, signal);
+}
+
+// For Image/Video Analysis
+export function startMediaAnalysis(file: File, options?: AnalysisOptions): AnalysisSession {
+  return provider.startAnalysis(file, options);
+}
+
+// For Image Generation
+export function getImageCapabilities(): ImageGenerationCapabilities {
+  return provider.imageCapabilities;
+}
+
+export function generateImage(prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]> {
+  return provider.generateImage(prompt, options);
+}
+
+// For Image Editing
+export function getImageEditModel(): string {
+  return provider.imageEditModel;
+}
+
+export function editImage(request: ImageEditRequest): Promise<GeneratedImage> {
+  return provider.editImage(request);
+}
+
+// For Prompt Enhancement
+export function enhancePrompt(prompt: string, target: PromptTarget): Promise<string> {
+  return provider.enhancePrompt(prompt, target);
+}
+
+// For Video Generation
+export function getVideoModels(): VideoModelCapabilities[] {
+  return provider.videoModels;
+}
+
+export function startVideoGeneration(prompt: string, config: VideoGenerationConfig): Promise<string> {
+  return provider.startVideoGeneration(prompt, config);
+}
+
+export function getVideoOperation(operationName: string): Promise<VideoOperationStatus> {
+  return provider.getVideoOperation(operationName);
+}
+
+export function downloadVideo(videoUri: string): Promise<globalThis.Blob> {
+  return provider.downloadVideo(videoUri);
+}
+
+// For Audio Generation
+export function generateAudio(text: string, voiceName: string, options?: SpeechOptions): Promise<string> {
+  return provider.generateAudio(text, voiceName, options);
+}
+
+export function getMaxDialogueSpeakers(): number {
+  return provider.maxDialogueSpeakers;
+}
+
+export function generateDialogueAudio(lines: DialogueLine[], speakers: DialogueSpeaker[]): Promise<string> {
+  return provider.generateDialogueAudio(lines, speakers);
+}
+
+// For Transcription
+let transcriptionSession: TranscriptionSession | null = null;
+
+export function startTranscriptionSession(callbacks: TranscriptionCallbacks): void {
+  if (transcriptionSession) {
+    console.warn("Transcription session already in progress.");
+    return;
+  }
+  // Late callbacks from a session that has already been replaced must not clear the new one.
+  let session: TranscriptionSession | null = null;
+  const release = () => {
+    if (transcriptionSession === session) {
+      transcriptionSession = null;
+    }
+  };
+  try {
+    session = provider.startTranscription({
+      ...callbacks,
+      onError: (error) => {
+        release();
+        callbacks.onError(error);
+      },
+      onClose: () => {
+        release();
+        callbacks.onClose();
+      },
+    });
+    transcriptionSession = session;
+  } catch (error) {
+    callbacks.onError(error instanceof Error ? error : new Error("Failed to start transcription."));
+  }
+}
+
+export function sendAudioForTranscription(pcmBlob: Blob): void {
+  if (!transcriptionSession) {
+    console.error("Cannot send audio, transcription session not started.");
+    return;
+  }
+  transcriptionSession.sendAudio(pcmBlob);
+}
+
+export function transcribeFile(file: File, options?: AnalysisOptions): Promise<TranscriptionUpdate[]> {
+  return provider.transcribeFile(file, options);
+}
+
+export function stopTranscriptionSession(): void {
+  if (!transcriptionSession) {
+    return;
+  }
+  transcriptionSession.close();
+  transcriptionSession = null;
+}
+
+// For Talk
+let conversationSession: ConversationSession | null = null;
+
+export function startConversationSession(options: ConversationOptions, callbacks: ConversationCallbacks): void {
+  if (conversationSession) {
+    console.warn("Conversation session already in progress.");
+    return;
+  }
+  // As with transcription, a replaced session's late callbacks must not clear the new one.
+  let session: ConversationSession | null = null;
+  const release = () => {
+    if (conversationSession === session) {
+      conversationSession = null;
+    }
+  };
+  try {
+    session = provider.startConversation(options, {
+      ...callbacks,
+      onError: (error) => {
+        release();
+        callbacks.onError(error);
+      },
+      onClose: () => {
+        release();
+        callbacks.onClose();
+      },
+    });
+    conversationSession = session;
+  } catch (error) {
+    callbacks.onError(error instanceof Error ? error : new Error("Failed to start the conversation."));
+  }
+}
+
+export function sendConversationAudio(pcmBlob: Blob): void {
+  if (!conversationSession) {
+    console.error("Cannot send audio, conversation session not started.");
+    return;
+  }
+  conversationSession.sendAudio(pcmBlob);
+}
+
+export function stopConversationSession(): void {
+  if (!conversationSession) {
+    return;
+  }
+  conversationSession.close();
+  conversationSession = null;
+}
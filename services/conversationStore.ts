@@ -0,0 +1,36 @@
+import type { Conversation, Message } from "../types";
+import { getAllRecords, putRecord, deleteRecord } from "../utils/db";
+import { DEFAULT_PERSONA_ID } from "./personaStore";
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+// Conversations saved before personas were configurable record a personality,
+// which is the id of the matching built-in persona.
+type StoredConversation = Omit<Conversation, 'personaId'> & { personaId?: string; personality?: string };
+
+export function createConversation(personaId: string, messages: Message[]): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    personaId,
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+  const stored = await getAllRecords<StoredConversation>('conversations');
+  return stored
+    .map(({ personality, personaId, ...conversation }) => ({ ...conversation, personaId: personaId ?? personality ?? DEFAULT_PERSONA_ID }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveConversation(conversation: Conversation): Promise<void> {
+  return putRecord('conversations', conversation);
+}
+
+export function deleteConversation(id: string): Promise<void> {
+  return deleteRecord('conversations', id);
+}
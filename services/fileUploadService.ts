@@ -0,0 +1,104 @@
+// Resumable, chunked upload to the Gemini Files API. The file is read one slice at
+// a time, so large recordings never have to be held in memory as base64. The base
+// URL is configurable so the protocol can be exercised against a local stand-in.
+
+// The resumable protocol requires every chunk except the last to be a multiple of 256 KiB.
+const DEFAULT_CHUNK_SIZE_BYTES = 8 * 1024 * 1024;
+const PROCESSING_POLL_INTERVAL_MS = 2000;
+// Browsers leave the type empty for extensions they do not recognise, such as some .mkv and .m4a files.
+const FALLBACK_MIME_TYPE = 'application/octet-stream';
+
+export const DEFAULT_UPLOAD_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+export interface UploadedFile {
+    name: string;
+    uri: string;
+    mimeType: string;
+    state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+export interface ChunkedUploadOptions {
+    apiKey: string;
+    baseUrl?: string;
+    chunkSizeBytes?: number;
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+    signal?: AbortSignal;
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function startUpload(file: File, baseUrl: string, apiKey: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${baseUrl}/upload/v1beta/files?key=${encodeURIComponent(apiKey)}`, {
+        method: 'POST',
+        headers: {
+            'X-Goog-Upload-Protocol': 'resumable',
+            'X-Goog-Upload-Command': 'start',
+            'X-Goog-Upload-Header-Content-Length': String(file.size),
+            'X-Goog-Upload-Header-Content-Type': file.type || FALLBACK_MIME_TYPE,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ file: { display_name: file.name } }),
+        signal,
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to start upload: ${response.status} ${response.statusText}`);
+    }
+    const uploadUrl = response.headers.get('x-goog-upload-url');
+    if (!uploadUrl) {
+        throw new Error("Upload endpoint did not return an upload URL.");
+    }
+    return uploadUrl;
+}
+
+async function waitUntilActive(file: UploadedFile, baseUrl: string, apiKey: string, signal?: AbortSignal): Promise<UploadedFile> {
+    let current = file;
+    // Video files are processed server-side before they can be referenced in a request.
+    while (current.state === 'PROCESSING') {
+        await wait(PROCESSING_POLL_INTERVAL_MS);
+        const response = await fetch(`${baseUrl}/v1beta/${current.name}?key=${encodeURIComponent(apiKey)}`, { signal });
+        if (!response.ok) {
+            throw new Error(`Failed to check upload status: ${response.status} ${response.statusText}`);
+        }
+        current = await response.json();
+    }
+    if (current.state === 'FAILED') {
+        throw new Error("The uploaded file could not be processed.");
+    }
+    return current;
+}
+
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions): Promise<UploadedFile> {
+    const { apiKey, baseUrl = DEFAULT_UPLOAD_BASE_URL, chunkSizeBytes = DEFAULT_CHUNK_SIZE_BYTES, onProgress, signal } = options;
+    const uploadUrl = await startUpload(file, baseUrl, apiKey, signal);
+
+    let offset = 0;
+    onProgress?.(0, file.size);
+    while (true) {
+        const end = Math.min(offset + chunkSizeBytes, file.size);
+        const isLastChunk = end >= file.size;
+        const response = await fetch(uploadUrl, {
+            method: 'POST',
+            headers: {
+                'X-Goog-Upload-Command': isLastChunk ? 'upload, finalize' : 'upload',
+                'X-Goog-Upload-Offset': String(offset),
+            },
+            body: file.slice(offset, end),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Upload failed at byte ${offset}: ${response.status} ${response.statusText}`);
+        }
+        offset = end;
+        onProgress?.(offset, file.size);
+
+        if (isLastChunk) {
+            const result: { file?: UploadedFile } = await response.json();
+            if (!result.file?.uri) {
+                throw new Error("Upload finished without a file URI.");
+            }
+            return waitUntilActive(result.file, baseUrl, apiKey, signal);
+        }
+    }
+}
@@ -1,139 +1,296 @@
 
 
-import { GoogleGenAI, Chat, Modality, LiveServerMessage, Blob } from "@google/genai";
-import type { ChatPersonality } from "../types";
+import { GoogleGenAI, Chat, Content, Part, type GenerateContentConfig, Modality, LiveServerMessage, Session, Type, createPartFromUri, GenerateVideosOperation, VideoGenerationReferenceType, type GenerateVideosConfig, type GenerateVideosParameters } from "@google/genai";
+import type { ChatPersona, Conversation, DialogueLine, DialogueSpeaker, MediaKind, Message } from "../types";
+import { fileToGenerativePart, INLINE_FILE_SIZE_LIMIT_BYTES } from "../utils/fileUtils";
+import { uploadFileInChunks } from "./fileUploadService";
+import type { AIProvider, AnalysisOptions, AnalysisSession, ConversationCallbacks, ConversationOptions, ConversationSession, GeneratedImage, ImageEditRequest, ImageGenerationCapabilities, ImageGenerationOptions, PromptTarget, SpeechOptions, TranscriptionCallbacks, TranscriptionSession, TranscriptionUpdate, VideoGenerationConfig, VideoModelCapabilities, VideoOperationStatus } from "./aiProvider";
+
+const mediaModels: Record<MediaKind, string> = {
+  image: 'imagen-4.0-generate-001',
+  video: 'veo-3.1-fast-generate-preview',
+  audio: 'gemini-2.5-flash-preview-tts',
+};
 
 // For Chat
-const chats = new Map<ChatPersonality, Chat>();
+const chatModels = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-flash-latest', 'gemini-flash-lite-latest'];
+
+// Chats are keyed by conversation id so each saved conversation keeps its own session.
+// Each remembers the persona settings it was created with.
+const chats = new Map<string, { chat: Chat; settings: string }>();
+
+function clearChatHistory(conversationId: string): void {
+  chats.delete(conversationId);
+}
+
+function personaSettings({ model, systemInstruction, temperature, topP, maxOutputTokens, thinkingBudget }: ChatPersona): string {
+  return JSON.stringify([model, systemInstruction, temperature, topP, maxOutputTokens, thinkingBudget]);
+}
 
-export function clearChatHistory(personality: ChatPersonality): void {
-  chats.delete(personality);
+function getChatInstance(conversation: Conversation, persona: ChatPersona): Chat {
+  const settings = personaSettings(persona);
+  const cached = chats.get(conversation.id);
+  if (cached?.settings === settings) {
+    return cached.chat;
+  }
+  // A persona edited mid-conversation carries on from the saved history.
+  const newChat = createChat(persona, toChatHistory(conversation.messages));
+  chats.set(conversation.id, { chat: newChat, settings });
+  return newChat;
 }
 
-function getChatInstance(personality: ChatPersonality): Chat {
-  if (chats.has(personality)) {
-    return chats.get(personality)!;
+function toParts(message: Message): Part[] {
+  const parts: Part[] = (message.attachments ?? []).map(attachment => ({
+    inlineData: { data: attachment.data, mimeType: attachment.mimeType },
+  }));
+  if (message.text) {
+    parts.push({ text: message.text });
   }
+  return parts;
+}
 
+/**
+ * Converts stored messages into Gemini history. The history has to open with a
+ * user turn, so the leading greeting is dropped, and failed exchanges are skipped.
+ */
+function toChatHistory(messages: Message[]): Content[] {
+  const history: Content[] = [];
+  for (const message of messages) {
+    if (message.isError) {
+      if (history[history.length - 1]?.role === 'user') {
+        history.pop();
+      }
+      continue;
+    }
+    if (history.length === 0 && message.role !== 'user') {
+      continue;
+    }
+    // The API rejects turns without parts, such as an empty reply saved by older builds.
+    const parts = toParts(message);
+    if (parts.length === 0) {
+      continue;
+    }
+    history.push({ role: message.role, parts });
+  }
+  return history;
+}
+
+function createChat(persona: ChatPersona, history?: Content[]): Chat {
   if (!process.env.API_KEY) {
     throw new Error("API_KEY environment variable not set");
   }
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-  let model: string;
-  let config: any = {
-    systemInstruction: 'You are Mani Ai, a helpful and friendly AI assistant. Your responses should be informative and easy to understand.',
+  // Unset sampling fields are left to the model's defaults.
+  const config: GenerateContentConfig = {
+    systemInstruction: persona.systemInstruction || undefined,
+    temperature: persona.temperature,
+    topP: persona.topP,
+    maxOutputTokens: persona.maxOutputTokens,
   };
-
-  switch (personality) {
-    case 'fast':
-      // FIX: Per guidelines, the model alias for flash lite is 'gemini-flash-lite-latest'.
-      model = 'gemini-flash-lite-latest';
-      break;
-    case 'creative':
-      model = 'gemini-2.5-pro';
-      config.thinkingConfig = { thinkingBudget: 32768 };
-      break;
-    case 'standard':
-    default:
-      model = 'gemini-2.5-flash';
-      break;
+  if (persona.thinkingBudget !== undefined) {
+    config.thinkingConfig = { thinkingBudget: persona.thinkingBudget };
   }
 
-  const newChat = ai.chats.create({ model, config });
-  chats.set(personality, newChat);
-  return newChat;
+  return ai.chats.create({ model: persona.model, config, history });
 }
 
-export async function sendMessageToAI(message: string, personality: ChatPersonality): Promise<string> {
+/**
+ * Streams the model's reply chunk by chunk, yielding the accumulated text so far.
+ * Aborting the signal ends the stream early; the partial reply is kept in the
+ * chat history so follow-up messages still see it.
+ */
+async function* streamMessageToAI(message: Message, conversation: Conversation, persona: ChatPersona, signal?: AbortSignal): AsyncGenerator<string> {
+  const chatInstance = getChatInstance(conversation, persona);
+  const parts = toParts(message);
+  let text = '';
   try {
-    const chatInstance = getChatInstance(personality);
-    const result = await chatInstance.sendMessage({ message });
-    return result.text;
+    const stream = await chatInstance.sendMessageStream({ message: parts, config: { abortSignal: signal } });
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      // Chunks without text (such as the final one carrying usage data) leave the reply unchanged.
+      if (!chunk.text) continue;
+      text += chunk.text;
+      yield text;
+    }
   } catch (error) {
-    console.error("Error sending message to Gemini:", error);
-    // Invalidate the chat instance on error
-    chats.delete(personality);
-    throw new Error("Failed to communicate with the Mani Ai service.");
+    if (!signal?.aborted) {
+      console.error("Error streaming message from Gemini:", error);
+      // Invalidate the chat instance on error
+      chats.delete(conversation.id);
+      throw new Error("Failed to communicate with the Mani Ai service.");
+    }
+  }
+
+  // The SDK only records a turn once its stream finishes, so an aborted turn
+  // has to be written back by recreating the chat with the partial reply.
+  // Stopped before any text arrived, the chat is left as it was: the API rejects empty parts.
+  const cached = chats.get(conversation.id);
+  if (signal?.aborted && text && cached?.chat === chatInstance) {
+    chats.set(conversation.id, {
+      chat: createChat(persona, [
+        ...chatInstance.getHistory(),
+        { role: 'user', parts },
+        { role: 'model', parts: [{ text }] },
+      ]),
+      settings: cached.settings,
+    });
   }
 }
 
 // For Image/Video Analysis
-function fileToGenerativePart(file: File): Promise<{ inlineData: { data: string; mimeType: string; } }> {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            if (typeof reader.result !== 'string') {
-                return reject(new Error("Failed to read file as base64."));
-            }
-            const base64Data = reader.result.split(',')[1];
-            resolve({
-                inlineData: {
-                    data: base64Data,
-                    mimeType: file.type,
-                }
-            });
-        };
-        reader.onerror = (err) => reject(err);
-        reader.readAsDataURL(file);
-    });
+// Uploads are cached per file so resetting a thread does not upload the file again.
+const uploadedFileParts = new WeakMap<File, Promise<Part>>();
+
+function getUploadedFilePart(file: File, onUploadProgress?: (fraction: number) => void): Promise<Part> {
+    let partPromise = uploadedFileParts.get(file);
+    if (!partPromise) {
+        partPromise = uploadFileInChunks(file, {
+            apiKey: process.env.API_KEY!,
+            baseUrl: process.env.GEMINI_UPLOAD_BASE_URL || undefined,
+            onProgress: (uploaded, total) => onUploadProgress?.(total > 0 ? uploaded / total : 1),
+        }).then(uploaded => createPartFromUri(uploaded.uri, uploaded.mimeType));
+        partPromise.catch(() => uploadedFileParts.delete(file));
+        uploadedFileParts.set(file, partPromise);
+    }
+    return partPromise;
 }
 
-export async function analyzeMedia(prompt: string, file: File): Promise<string> {
+function startMediaAnalysis(file: File, options: AnalysisOptions = {}): AnalysisSession {
     if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
+
     const model = file.type.startsWith('video/') ? 'gemini-2.5-pro' : 'gemini-2.5-flash';
-    const imagePart = await fileToGenerativePart(file);
+    const chat = ai.chats.create({ model });
+    let fileSent = false;
 
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ text: prompt }, imagePart] },
-    });
-    
-    return response.text;
+    return {
+        ask: async (prompt) => {
+            const parts: Part[] = [{ text: prompt }];
+            if (!fileSent) {
+                // Small files go inline; larger ones are uploaded in chunks and referenced by URI.
+                parts.push(file.size > INLINE_FILE_SIZE_LIMIT_BYTES
+                    ? await getUploadedFilePart(file, options.onUploadProgress)
+                    : await fileToGenerativePart(file));
+            }
+            const response = await chat.sendMessage({ message: parts });
+            // The file now lives in the chat history, so follow-ups only send text.
+            fileSent = true;
+            return response.text;
+        },
+    };
 }
 
 
 // For Image Generation
-export async function generateImage(prompt: string, aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9'): Promise<string> {
+// Imagen on the Gemini API rejects negative prompts and seeds, so neither is sent.
+const imageCapabilities: ImageGenerationCapabilities = {
+  maxImages: 4,
+  supportsNegativePrompt: false,
+  supportsSeed: false,
+  unsupportedReason: 'Imagen on the Gemini API does not accept negative prompts or seeds; they are only available through Vertex AI.',
+};
+
+async function generateImage(prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]> {
   if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
+      model: mediaModels.image,
       prompt: prompt,
       config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: aspectRatio,
+        numberOfImages: Math.min(Math.max(options.numberOfImages, 1), imageCapabilities.maxImages),
+        outputMimeType: options.outputMimeType,
+        aspectRatio: options.aspectRatio,
       },
   });
-  const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-  return `data:image/jpeg;base64,${base64ImageBytes}`;
+  const images = (response.generatedImages ?? [])
+    .map(generated => generated.image?.imageBytes)
+    .filter((bytes): bytes is string => !!bytes)
+    .map(bytes => ({ url: `data:${options.outputMimeType};base64,${bytes}` }));
+  if (images.length === 0) {
+    throw new Error("No images were generated. The prompt may have been blocked by safety filters.");
+  }
+  return images;
+}
+
+// For Image Editing
+// Imagen's mask editing is Vertex-only, so edits go through the Gemini image
+// model, with the mask sent as a second image.
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+const MASK_INSTRUCTION = "The second image is a mask for the first. Change only the areas that are white in the mask, keep everything else exactly as it is, and return the whole edited image at the original size.";
+
+async function editImage(request: ImageEditRequest): Promise<GeneratedImage> {
+  if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const parts: Part[] = [{ inlineData: request.image }];
+  if (request.mask) {
+    parts.push({ inlineData: request.mask }, { text: MASK_INSTRUCTION });
+  }
+  parts.push({ text: request.prompt });
+  const response = await ai.models.generateContent({
+      model: IMAGE_EDIT_MODEL,
+      contents: { parts },
+      config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
+  });
+  const responseParts = response.candidates?.[0]?.content?.parts ?? [];
+  const image = responseParts.find(part => part.inlineData?.data)?.inlineData;
+  if (!image?.data) {
+    // The model explains itself in text when it declines an edit.
+    const explanation = responseParts.map(part => part.text ?? '').join('').trim();
+    throw new Error(explanation || "No image was returned. The edit may have been blocked by safety filters.");
+  }
+  return { url: `data:${image.mimeType ?? 'image/png'};base64,${image.data}` };
+}
+
+// For Prompt Enhancement
+const PROMPT_ENHANCER_INSTRUCTIONS: Record<PromptTarget, string> = {
+  image: "You rewrite prompts for an image generation model. Expand the user's prompt into one detailed paragraph covering the subject, composition, setting, lighting, colour palette, style and medium or camera. Keep every detail the user gave and do not change their intent. Reply with the rewritten prompt only.",
+  video: "You rewrite prompts for a video generation model. Expand the user's prompt into one detailed paragraph covering the subject, action, camera movement, setting, lighting, mood, pacing and sound. Keep every detail the user gave and do not change their intent. Reply with the rewritten prompt only.",
+};
+
+async function enhancePrompt(prompt: string, target: PromptTarget): Promise<string> {
+  if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: { systemInstruction: PROMPT_ENHANCER_INSTRUCTIONS[target] },
+  });
+  const enhanced = response.text?.trim();
+  if (!enhanced) {
+    throw new Error("The model returned an empty prompt.");
+  }
+  return enhanced;
 }
 
 // For Video Generation
-export async function* generateVideo(prompt: string, config: { aspectRatio: '16:9' | '9:16', imageFile?: File | null }) {
+const videoModels: VideoModelCapabilities[] = [
+    { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', resolutions: ['720p', '1080p'], fullHdLandscapeOnly: false, maxVideos: 1, supportsLastFrame: true, maxReferenceImages: 0, supportsExtension: true },
+    { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', resolutions: ['720p', '1080p'], fullHdLandscapeOnly: false, maxVideos: 1, supportsLastFrame: true, maxReferenceImages: 3, supportsExtension: true },
+    { id: 'veo-3.0-generate-001', label: 'Veo 3', resolutions: ['720p', '1080p'], fullHdLandscapeOnly: true, maxVideos: 1, supportsLastFrame: false, maxReferenceImages: 0, supportsExtension: false },
+    { id: 'veo-2.0-generate-001', label: 'Veo 2', resolutions: ['720p'], fullHdLandscapeOnly: false, maxVideos: 2, supportsLastFrame: false, maxReferenceImages: 0, supportsExtension: false },
+];
+
+async function fileToVideoImage(file: File): Promise<{ imageBytes: string; mimeType: string }> {
+    const imagePart = await fileToGenerativePart(file);
+    return {
+        imageBytes: imagePart.inlineData.data,
+        mimeType: imagePart.inlineData.mimeType,
+    };
+}
+
+async function startVideoGeneration(prompt: string, config: VideoGenerationConfig): Promise<string> {
     if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    const generationConfig: {
-        numberOfVideos: number;
-        resolution: string;
-        aspectRatio: '16:9' | '9:16';
-    } = {
-        numberOfVideos: 1,
-        resolution: '720p',
+    const generationConfig: GenerateVideosConfig = {
+        numberOfVideos: config.numberOfVideos,
+        resolution: config.resolution,
         aspectRatio: config.aspectRatio,
     };
 
-    const payload: {
-        model: string;
-        prompt?: string;
-        image?: { imageBytes: string; mimeType: string; };
-        config: typeof generationConfig;
-    } = {
-        model: 'veo-3.1-fast-generate-preview',
+    const payload: GenerateVideosParameters = {
+        model: config.model,
         config: generationConfig,
     };
     
@@ -142,63 +299,79 @@ export async function* generateVideo(prompt: string, config: { aspectRatio: '16:
     }
 
     if (config.imageFile) {
-        const imagePart = await fileToGenerativePart(config.imageFile);
-        payload.image = {
-            imageBytes: imagePart.inlineData.data,
-            mimeType: imagePart.inlineData.mimeType,
-        };
+        payload.image = await fileToVideoImage(config.imageFile);
+    }
+    if (config.lastFrameFile) {
+        generationConfig.lastFrame = await fileToVideoImage(config.lastFrameFile);
+    }
+    if (config.referenceImages?.length) {
+        generationConfig.referenceImages = await Promise.all(config.referenceImages.map(async file => ({
+            image: await fileToVideoImage(file),
+            referenceType: VideoGenerationReferenceType.ASSET,
+        })));
+    }
+    if (config.extendVideoUri) {
+        payload.video = { uri: config.extendVideoUri };
     }
     
-    let operation = await ai.models.generateVideos(payload);
-
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        try {
-            operation = await ai.operations.getVideosOperation({ operation: operation });
-        } catch (e) {
-            console.error("Error polling video operation:", e);
-            throw e;
-        }
+    const operation = await ai.models.generateVideos(payload);
+    if (!operation.name) {
+        throw new Error("Video generation did not return an operation to track.");
+    }
+    return operation.name;
+}
+
+async function getVideoOperation(operationName: string): Promise<VideoOperationStatus> {
+    if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    // Only the name is needed to look the operation up, so it can be rebuilt after a reload.
+    const pending = new GenerateVideosOperation();
+    pending.name = operationName;
+    const operation = await ai.operations.getVideosOperation({ operation: pending });
+    if (!operation.done) {
+        return { done: false };
     }
     
     if (operation.error) {
         throw new Error(`Video generation failed: ${operation.error.message}`);
     }
 
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
+    const downloadLinks = (operation.response?.generatedVideos ?? [])
+        .map(generated => generated.video?.uri)
+        .filter((uri): uri is string => Boolean(uri));
+    if (downloadLinks.length === 0) {
         throw new Error("Video generation failed to produce a download link.");
     }
+    return { done: true, videoUris: downloadLinks };
+}
 
-    yield { status: 'fetching' };
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+async function downloadVideo(videoUri: string): Promise<Blob> {
+    const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
     if (!response.ok) {
         throw new Error(`Failed to fetch video: ${response.statusText}`);
     }
-    const videoBlob = await response.blob();
-    const videoUrl = URL.createObjectURL(videoBlob);
-    yield { status: 'completed', url: videoUrl };
+    return response.blob();
 }
 
 
 // For Audio Generation (Existing)
-export async function generateAudio(text: string, voiceName: string): Promise<string> {
+// The TTS models take delivery instructions as a natural-language prefix to the text.
+function withStylePrompt(text: string, stylePrompt?: string): string {
+    const style = stylePrompt?.trim();
+    return style ? `${style}:\n${text}` : text;
+}
+
+async function generateAudio(text: string, voiceName: string, options: SpeechOptions = {}): Promise<string> {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    let apiVoiceName = voiceName;
-    if (voiceName === 'Prabhas') {
-        apiVoiceName = 'Fenrir';
-    } else if (voiceName === 'Human') {
-        apiVoiceName = 'Zephyr';
-    }
-    
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
+      model: mediaModels.audio,
+      contents: [{ parts: [{ text: withStylePrompt(text, options.stylePrompt) }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
             voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: apiVoiceName },
+              prebuiltVoiceConfig: { voiceName },
             },
         },
       },
@@ -210,30 +383,60 @@ export async function generateAudio(text: string, voiceName: string): Promise<st
     return base64Audio;
 }
 
-// For Transcription
-export interface TranscriptionCallbacks {
-    onTranscriptionUpdate: (transcript: string, isFinal: boolean) => void;
-    onError: (error: Error) => void;
-    onClose: () => void;
-}
-
-// FIX: 'LiveSession' is not an exported member. Using 'any' as the session type is not exported.
-let liveSessionPromise: Promise<any> | null = null;
+// The TTS models accept exactly two speakers in a multi-speaker request.
+const MAX_DIALOGUE_SPEAKERS = 2;
 
-export function startTranscriptionSession(callbacks: TranscriptionCallbacks): void {
-    if (liveSessionPromise) {
-        console.warn("Transcription session already in progress.");
-        return;
+async function generateDialogueAudio(lines: DialogueLine[], speakers: DialogueSpeaker[]): Promise<string> {
+    // A script with a single speaker is just narration.
+    if (speakers.length === 1) {
+        return generateAudio(lines.map(line => line.text).join('\n'), speakers[0].voice, { stylePrompt: speakers[0].stylePrompt });
     }
+    if (speakers.length !== MAX_DIALOGUE_SPEAKERS) {
+        throw new Error(`Dialogue needs one or ${MAX_DIALOGUE_SPEAKERS} speakers.`);
+    }
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const names = speakers.map(speaker => speaker.name);
+    const script = lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    const styles = speakers
+        .filter(speaker => speaker.stylePrompt?.trim())
+        .map(speaker => `Delivery for ${speaker.name}: ${speaker.stylePrompt!.trim()}.`);
+    const preamble = [`TTS the following conversation between ${names.join(' and ')}.`, ...styles].join(' ');
+    const response = await ai.models.generateContent({
+      model: mediaModels.audio,
+      contents: [{ parts: [{ text: `${preamble}\n${script}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+            multiSpeakerVoiceConfig: {
+              speakerVoiceConfigs: speakers.map(speaker => ({
+                speaker: speaker.name,
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker.voice } },
+              })),
+            },
+        },
+      },
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) {
+        throw new Error("Failed to generate dialogue audio data.");
+    }
+    return base64Audio;
+}
+
+// For Transcription
+function startTranscriptionSession(callbacks: TranscriptionCallbacks): TranscriptionSession {
     if (!process.env.API_KEY) {
-      callbacks.onError(new Error("API_KEY environment variable not set"));
-      return;
+      throw new Error("API_KEY environment variable not set");
     }
 
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     let currentTranscript = ''; // State for the current utterance.
+    // Segment times are relative to the start of the session.
+    const sessionStartedAt = Date.now();
+    const elapsedMs = () => Date.now() - sessionStartedAt;
+    let utteranceStartMs: number | null = null;
 
-    liveSessionPromise = ai.live.connect({
+    const sessionPromise: Promise<Session> = ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
         callbacks: {
             onopen: () => console.log('Transcription session opened.'),
@@ -241,28 +444,28 @@ export function startTranscriptionSession(callbacks: TranscriptionCallbacks): vo
             // based on the presence of `inputTranscription` and `turnComplete` flags.
             onmessage: (message: LiveServerMessage) => {
                 if (message.serverContent?.inputTranscription) {
-                    currentTranscript = message.serverContent.inputTranscription.text;
+                    currentTranscript = message.serverContent.inputTranscription.text ?? '';
+                    utteranceStartMs ??= elapsedMs();
                     // Send interim results to the UI.
-                    callbacks.onTranscriptionUpdate(currentTranscript, false);
+                    callbacks.onTranscriptionUpdate({ text: currentTranscript, isFinal: false, startMs: utteranceStartMs, endMs: elapsedMs() });
                 }
                 // 'turnComplete' indicates the final transcript for an utterance.
                 if (message.serverContent?.turnComplete) {
                     if (currentTranscript) {
-                        // Send the final transcript.
-                        callbacks.onTranscriptionUpdate(currentTranscript, true);
+                        // Send the final transcript; the utterance ends when the turn completes.
+                        callbacks.onTranscriptionUpdate({ text: currentTranscript, isFinal: true, startMs: utteranceStartMs ?? elapsedMs(), endMs: elapsedMs() });
                         currentTranscript = ''; // Reset for next utterance.
                     }
+                    utteranceStartMs = null;
                 }
             },
             onerror: (e: ErrorEvent) => {
                 console.error("Transcription session error:", e);
                 callbacks.onError(new Error(e.message || "An unknown error occurred during transcription."));
-                liveSessionPromise = null;
             },
             onclose: (e: CloseEvent) => {
                 console.log('Transcription session closed.');
                 callbacks.onClose();
-                liveSessionPromise = null;
             },
         },
         config: {
@@ -271,29 +474,198 @@ export function startTranscriptionSession(callbacks: TranscriptionCallbacks): vo
             responseModalities: [Modality.AUDIO],
         },
     });
+
+    return {
+        sendAudio: (pcmBlob) => {
+            sessionPromise.then((session) => {
+                session.sendRealtimeInput({ media: pcmBlob });
+            }).catch(err => {
+                console.error("Failed to send audio data:", err);
+            });
+        },
+        close: () => {
+            sessionPromise.then((session) => {
+                session.close();
+            }).catch(err => {
+                console.error("Error while closing transcription session:", err);
+            });
+        },
+    };
 }
 
-export function sendAudioForTranscription(pcmBlob: Blob): void {
-    if (!liveSessionPromise) {
-        console.error("Cannot send audio, transcription session not started.");
-        return;
-    }
-    liveSessionPromise.then((session) => {
-        session.sendRealtimeInput({ media: pcmBlob });
-    }).catch(err => {
-        console.error("Failed to send audio data:", err);
+const FILE_TRANSCRIPTION_PROMPT = `Transcribe all speech in this recording. Split it into segments at sentence or speaker boundaries.
+Label speakers consistently as "Speaker 1", "Speaker 2" and so on unless they introduce themselves by name.
+Give each segment's start and end time in seconds from the beginning of the recording.`;
+
+const UNREADABLE_TRANSCRIPTION = "The transcription came back in an unexpected format. Please try again.";
+
+interface TranscriptSegment {
+    speaker?: unknown;
+    start: number;
+    end: number;
+    text: string;
+}
+
+async function transcribeFile(file: File, options: AnalysisOptions = {}): Promise<TranscriptionUpdate[]> {
+    if (!process.env.API_KEY) { throw new Error("API_KEY environment variable not set"); }
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const filePart = file.size > INLINE_FILE_SIZE_LIMIT_BYTES
+        ? await getUploadedFilePart(file, options.onUploadProgress)
+        : await fileToGenerativePart(file);
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [{ parts: [filePart, { text: FILE_TRANSCRIPTION_PROMPT }] }],
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        speaker: { type: Type.STRING },
+                        start: { type: Type.NUMBER, description: 'Start time in seconds.' },
+                        end: { type: Type.NUMBER, description: 'End time in seconds.' },
+                        text: { type: Type.STRING },
+                    },
+                    required: ['speaker', 'start', 'end', 'text'],
+                },
+            },
+        },
     });
+    let data: unknown;
+    try {
+        data = JSON.parse(response.text ?? '[]');
+    } catch (error) {
+        console.error("Unreadable transcription from Gemini:", error);
+        throw new Error(UNREADABLE_TRANSCRIPTION);
+    }
+    if (!Array.isArray(data)) {
+        throw new Error(UNREADABLE_TRANSCRIPTION);
+    }
+    // Segments missing text or times are dropped rather than shown with made-up values.
+    const segments = data.filter((segment): segment is TranscriptSegment =>
+        typeof segment?.text === 'string' && segment.text.trim() !== '' &&
+        Number.isFinite(segment.start) && Number.isFinite(segment.end));
+    return segments
+        .map(segment => ({
+            text: segment.text.trim(),
+            isFinal: true,
+            startMs: Math.round(segment.start * 1000),
+            endMs: Math.round(segment.end * 1000),
+            speaker: typeof segment.speaker === 'string' && segment.speaker ? segment.speaker : undefined,
+        }));
 }
 
-export function stopTranscriptionSession(): void {
-    if (!liveSessionPromise) {
-        return;
+// For Talk
+function startConversationSession(options: ConversationOptions, callbacks: ConversationCallbacks): ConversationSession {
+    if (!process.env.API_KEY) {
+      throw new Error("API_KEY environment variable not set");
     }
-    liveSessionPromise.then((session) => {
-        session.close();
-    }).catch(err => {
-        console.error("Error while closing transcription session:", err);
-    }).finally(() => {
-        liveSessionPromise = null;
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    // Transcriptions arrive in fragments; each side's turn is accumulated until it ends.
+    let userText = '';
+    let modelText = '';
+
+    const finishUserTurn = () => {
+        if (userText) {
+            callbacks.onTranscript({ role: 'user', text: userText, isFinal: true });
+            userText = '';
+        }
+    };
+    const finishModelTurn = (interrupted = false) => {
+        if (modelText) {
+            callbacks.onTranscript({ role: 'model', text: modelText, isFinal: true, interrupted });
+            modelText = '';
+        }
+    };
+
+    const sessionPromise: Promise<Session> = ai.live.connect({
+        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        callbacks: {
+            onmessage: (message: LiveServerMessage) => {
+                const content = message.serverContent;
+                if (!content) return;
+                if (content.inputTranscription?.text) {
+                    userText += content.inputTranscription.text;
+                    callbacks.onTranscript({ role: 'user', text: userText, isFinal: false });
+                }
+                // The model answering means the user's turn is over.
+                if (content.outputTranscription?.text) {
+                    finishUserTurn();
+                    modelText += content.outputTranscription.text;
+                    callbacks.onTranscript({ role: 'model', text: modelText, isFinal: false });
+                }
+                for (const part of content.modelTurn?.parts ?? []) {
+                    if (part.inlineData?.data) {
+                        finishUserTurn();
+                        callbacks.onAudio(part.inlineData.data);
+                    }
+                }
+                if (content.interrupted) {
+                    finishModelTurn(true);
+                    callbacks.onInterrupted();
+                }
+                if (content.turnComplete) {
+                    finishUserTurn();
+                    finishModelTurn();
+                }
+            },
+            onerror: (e: ErrorEvent) => {
+                console.error("Conversation session error:", e);
+                callbacks.onError(new Error(e.message || "An unknown error occurred during the conversation."));
+            },
+            onclose: () => callbacks.onClose(),
+        },
+        config: {
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+            },
+            systemInstruction: options.systemInstruction,
+        },
     });
-}
\ No newline at end of file
+
+    return {
+        sendAudio: (pcmBlob) => {
+            sessionPromise.then((session) => {
+                session.sendRealtimeInput({ media: pcmBlob });
+            }).catch(err => {
+                console.error("Failed to send audio data:", err);
+            });
+        },
+        close: () => {
+            sessionPromise.then((session) => {
+                session.close();
+            }).catch(err => {
+                console.error("Error while closing conversation session:", err);
+            });
+        },
+    };
+}
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    mediaModels,
+    chatModels,
+    streamChat: streamMessageToAI,
+    clearChat: clearChatHistory,
+    startAnalysis: startMediaAnalysis,
+    imageCapabilities,
+    generateImage,
+    imageEditModel: IMAGE_EDIT_MODEL,
+    editImage,
+    enhancePrompt,
+    videoModels,
+    startVideoGeneration,
+    getVideoOperation,
+    downloadVideo,
+    generateAudio,
+    maxDialogueSpeakers: MAX_DIALOGUE_SPEAKERS,
+    generateDialogueAudio,
+    startTranscription: startTranscriptionSession,
+    transcribeFile,
+    startConversation: startConversationSession,
+};
@@ -0,0 +1,31 @@
+import type { MediaLibraryItem } from "../types";
+import { getAllRecords, getRecord, putRecord, deleteRecord } from "../utils/db";
+
+// Distributes Omit over the union so each kind keeps its own settings shape.
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewMediaLibraryItem = DistributiveOmit<MediaLibraryItem, 'id' | 'createdAt'>;
+
+export async function saveMediaItem(item: NewMediaLibraryItem): Promise<MediaLibraryItem> {
+  const saved = { ...item, id: crypto.randomUUID(), createdAt: Date.now() } as MediaLibraryItem;
+  await putRecord('media', saved);
+  return saved;
+}
+
+export async function listMediaItems(): Promise<MediaLibraryItem[]> {
+  const items = await getAllRecords<MediaLibraryItem>('media');
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getMediaItem(id: string): Promise<MediaLibraryItem | undefined> {
+  return getRecord<MediaLibraryItem>('media', id);
+}
+
+export function deleteMediaItem(id: string): Promise<void> {
+  return deleteRecord('media', id);
+}
+
+export async function urlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  return response.blob();
+}
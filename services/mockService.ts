@@ -0,0 +1,465 @@
+import type { ChatPersona, Conversation, DialogueLine, DialogueSpeaker, ImageAspectRatio, Message } from "../types";
+import type { AIProvider, AnalysisOptions, AnalysisSession, ConversationCallbacks, ConversationOptions, ConversationSession, GeneratedImage, ImageEditRequest, ImageGenerationCapabilities, ImageGenerationOptions, InlineImage, PromptTarget, TranscriptionCallbacks, TranscriptionSession, TranscriptionUpdate, VideoGenerationConfig, VideoModelCapabilities, VideoOperationStatus } from "./aiProvider";
+import { concatPcm, decode, encode } from "../utils/audioUtils";
+import { INLINE_FILE_SIZE_LIMIT_BYTES } from "../utils/fileUtils";
+
+// Offline provider: every capability returns canned, deterministic output so the
+// app can be demoed and exercised without a Gemini key or network access.
+
+const STREAM_CHUNK_DELAY_MS = 40;
+const MOCK_AUDIO_SAMPLE_RATE = 24000;
+const MOCK_VIDEO_DURATION_MS = 2000;
+const MOCK_VIDEO_GENERATION_MS = 15000;
+const MOCK_TRANSCRIPT_INTERVAL_MS = 1500;
+const MOCK_UPLOAD_STEPS = 10;
+const MOCK_REPLY_CHUNK_SAMPLES = 4800;
+// RMS of 16-bit input above which the mock treats the user as talking over its reply.
+const MOCK_BARGE_IN_RMS = 1500;
+
+const mockTranscriptUtterances = [
+    "This is a mock transcription session.",
+    "No audio is sent anywhere while the mock provider is active.",
+    "Each utterance arrives as interim text before it is finalized.",
+];
+
+const mockConversation = [
+    { user: "Hello, can you hear me?", reply: "Loud and clear. I'm the mock provider, so I follow a script." },
+    { user: "What happens if I talk over you?", reply: "I stop speaking and listen, just like the real model. Try it while I'm talking." },
+    { user: "How do I talk to the real model?", reply: "Set AI_PROVIDER to gemini and add your API key." },
+];
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timeout = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            resolve();
+        }, { once: true });
+    });
+}
+
+// Small, stable string hash used to derive colours and tones from prompts.
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+}
+
+async function* streamChat(message: Message, conversation: Conversation, persona: ChatPersona, signal?: AbortSignal): AsyncGenerator<string> {
+    const turn = conversation.messages.filter(m => m.role === 'user').length + 1;
+    const attachmentNames = (message.attachments ?? []).map(a => a.name);
+    const reply = `This is a mock reply from Mani Ai (turn ${turn}, ${persona.name} persona). ` +
+        `You said: "${message.text.trim()}". ` +
+        (attachmentNames.length > 0 ? `You attached: ${attachmentNames.join(', ')}. ` : '') +
+        `Set AI_PROVIDER=gemini to talk to the real model.`;
+    const words = reply.split(' ');
+    let text = '';
+    for (let i = 0; i < words.length; i++) {
+        await delay(STREAM_CHUNK_DELAY_MS, signal);
+        if (signal?.aborted) return;
+        text += (i === 0 ? '' : ' ') + words[i];
+        yield text;
+    }
+}
+
+function clearChat(_conversationId: string): void {
+    // The mock keeps no session state.
+}
+
+function startAnalysis(file: File, options: AnalysisOptions = {}): AnalysisSession {
+    const kind = file.type.startsWith('video/') ? 'video' : 'image';
+    const sizeKb = Math.round(file.size / 1024);
+    let questionCount = 0;
+    return {
+        ask: async (prompt) => {
+            if (questionCount === 0 && file.size > INLINE_FILE_SIZE_LIMIT_BYTES) {
+                // Simulate the chunked upload a large file would need.
+                for (let step = 0; step <= MOCK_UPLOAD_STEPS; step++) {
+                    options.onUploadProgress?.(step / MOCK_UPLOAD_STEPS);
+                    await delay(100);
+                }
+            }
+            await delay(300);
+            questionCount++;
+            const intro = questionCount === 1
+                ? `Mock analysis of the ${kind} "${file.name}" (${file.type || 'unknown type'}, ${sizeKb} KB).`
+                : `Follow-up #${questionCount - 1} about "${file.name}".`;
+            return `${intro}\n\nYour question was: "${prompt.trim()}". The mock provider does not inspect file contents.`;
+        },
+    };
+}
+
+const aspectRatioSizes: Record<ImageAspectRatio, [number, number]> = {
+    '1:1': [1024, 1024],
+    '3:4': [768, 1024],
+    '4:3': [1024, 768],
+    '9:16': [576, 1024],
+    '16:9': [1024, 576],
+};
+
+const imageCapabilities: ImageGenerationCapabilities = {
+    maxImages: 4,
+    supportsNegativePrompt: true,
+    supportsSeed: true,
+};
+
+/** Paints a gradient placeholder whose colours follow the seed, encoded in the requested format. */
+function renderPlaceholderImage(prompt: string, options: ImageGenerationOptions, seed: number): string {
+    const [width, height] = aspectRatioSizes[options.aspectRatio];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Canvas is not available for the mock image.");
+    }
+    const hue = seed % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = 'white';
+    ctx.textAlign = 'center';
+    ctx.font = `${Math.round(width / 28)}px sans-serif`;
+    ctx.fillText(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt, width / 2, height / 2);
+    ctx.globalAlpha = 0.6;
+    ctx.font = '20px sans-serif';
+    const details = [`Mock image (${options.aspectRatio})`, `seed ${seed}`];
+    if (options.negativePrompt) {
+        details.push(`avoiding: ${options.negativePrompt}`);
+    }
+    ctx.fillText(details.join(' · '), width / 2, height - 32);
+    return canvas.toDataURL(options.outputMimeType);
+}
+
+async function generateImage(prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]> {
+    await delay(300);
+    const baseSeed = options.seed ?? hashString(prompt);
+    const count = Math.min(Math.max(options.numberOfImages, 1), imageCapabilities.maxImages);
+    return Array.from({ length: count }, (_, i) => {
+        const seed = baseSeed + i * 47;
+        return { url: renderPlaceholderImage(prompt, options, seed), seed };
+    });
+}
+
+function loadInlineImage(image: InlineImage): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new Error("The image could not be decoded."));
+        element.src = `data:${image.mimeType};base64,${image.data}`;
+    });
+}
+
+/** Tints the masked area (or the whole image) with a colour taken from the prompt, and captions it. */
+async function editImage(request: ImageEditRequest): Promise<GeneratedImage> {
+    await delay(600);
+    const source = await loadInlineImage(request.image);
+    const mask = request.mask ? await loadInlineImage(request.mask) : null;
+    const { naturalWidth: width, naturalHeight: height } = source;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error("Canvas is not available for the mock edit.");
+    }
+
+    let maskPixels: Uint8ClampedArray | null = null;
+    if (mask) {
+        ctx.drawImage(mask, 0, 0, width, height);
+        maskPixels = ctx.getImageData(0, 0, width, height).data;
+    }
+    ctx.drawImage(source, 0, 0);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const hue = hashString(request.prompt) % 360;
+    ctx.fillStyle = `hsl(${hue}, 80%, 50%)`;
+    ctx.fillRect(0, 0, 1, 1);
+    const [tintR, tintG, tintB] = ctx.getImageData(0, 0, 1, 1).data;
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        if (maskPixels && maskPixels[i] < 128) continue;
+        pixels.data[i] = (pixels.data[i] + tintR) / 2;
+        pixels.data[i + 1] = (pixels.data[i + 1] + tintG) / 2;
+        pixels.data[i + 2] = (pixels.data[i + 2] + tintB) / 2;
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    ctx.fillStyle = 'white';
+    ctx.textAlign = 'center';
+    ctx.font = `${Math.max(14, Math.round(width / 40))}px sans-serif`;
+    const caption = `Mock edit: ${request.prompt}`;
+    ctx.fillText(caption.length > 70 ? `${caption.slice(0, 67)}...` : caption, width / 2, height - 24);
+    return { url: canvas.toDataURL('image/png') };
+}
+
+const mockPromptDetails: Record<PromptTarget, string> = {
+    image: 'highly detailed, balanced composition, soft natural lighting, shallow depth of field, rich colour palette',
+    video: 'slow dolly-in camera move, golden hour lighting, calm mood, smooth pacing, gentle ambient soundtrack',
+};
+
+async function enhancePrompt(prompt: string, target: PromptTarget): Promise<string> {
+    await delay(400);
+    return `${prompt.trim().replace(/[.,;\s]+$/, '')}, ${mockPromptDetails[target]}.`;
+}
+
+/** Records a short canvas animation with MediaRecorder so the sample clip is produced locally. */
+function recordSampleVideo(prompt: string, aspectRatio: VideoGenerationConfig['aspectRatio']): Promise<Blob> {
+    const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        return Promise.reject(new Error("Canvas is not available for the mock video."));
+    }
+    const hue = hashString(prompt) % 360;
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+
+    return new Promise((resolve, reject) => {
+        const start = performance.now();
+        const drawFrame = () => {
+            const progress = Math.min((performance.now() - start) / MOCK_VIDEO_DURATION_MS, 1);
+            ctx.fillStyle = `hsl(${(hue + progress * 120) % 360}, 60%, 35%)`;
+            ctx.fillRect(0, 0, width, height);
+            ctx.fillStyle = 'white';
+            ctx.beginPath();
+            ctx.arc(width * progress, height / 2, Math.min(width, height) / 8, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.font = '20px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText('Mock video', width / 2, height - 24);
+            if (progress < 1) {
+                requestAnimationFrame(drawFrame);
+            } else {
+                recorder.stop();
+            }
+        };
+        recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+        recorder.onerror = () => reject(new Error("Failed to record the mock video."));
+        recorder.start();
+        drawFrame();
+    });
+}
+
+const videoModels: VideoModelCapabilities[] = [
+    { id: 'mock-video', label: 'Mock video', resolutions: ['720p', '1080p'], fullHdLandscapeOnly: false, maxVideos: 2, supportsLastFrame: true, maxReferenceImages: 3, supportsExtension: true },
+];
+
+// The operation name carries everything needed to finish the job, so mock jobs
+// also survive a page reload.
+const MOCK_OPERATION_PREFIX = 'mock-video/';
+
+async function startVideoGeneration(prompt: string, config: VideoGenerationConfig): Promise<string> {
+    await delay(300);
+    const label = [
+        prompt || config.imageFile?.name || '',
+        config.extendVideoUri ? '(extended)' : '',
+    ].filter(Boolean).join(' ');
+    return `${MOCK_OPERATION_PREFIX}${Date.now()}/${config.aspectRatio}/${config.numberOfVideos}/${encodeURIComponent(label)}`;
+}
+
+function parseMockOperation(operationName: string): { startedAt: number; aspectRatio: VideoGenerationConfig['aspectRatio']; count: number; label: string } {
+    if (!operationName.startsWith(MOCK_OPERATION_PREFIX)) {
+        throw new Error(`Unknown mock video operation "${operationName}".`);
+    }
+    const [startedAt, aspectRatio, count, label] = operationName.slice(MOCK_OPERATION_PREFIX.length).split('/');
+    return {
+        startedAt: Number(startedAt),
+        aspectRatio: aspectRatio as VideoGenerationConfig['aspectRatio'],
+        count: Number(count) || 1,
+        label: decodeURIComponent(label ?? ''),
+    };
+}
+
+async function getVideoOperation(operationName: string): Promise<VideoOperationStatus> {
+    const { startedAt, count } = parseMockOperation(operationName);
+    if (Date.now() - startedAt < MOCK_VIDEO_GENERATION_MS) {
+        return { done: false };
+    }
+    return { done: true, videoUris: Array.from({ length: count }, (_, i) => `${operationName}#${i + 1}`) };
+}
+
+function downloadVideo(videoUri: string): Promise<Blob> {
+    const [operationName, index] = videoUri.split('#');
+    const { aspectRatio, count, label } = parseMockOperation(operationName);
+    return recordSampleVideo(count > 1 ? `${label} #${index}` : label, aspectRatio);
+}
+
+/** Synthesizes a soft two-tone chime, roughly 60 ms per character, as 16-bit PCM samples. */
+function synthesizeChime(text: string, voiceName: string): Int16Array {
+    const durationSeconds = Math.min(Math.max(text.length * 0.06, 0.5), 10);
+    const sampleCount = Math.floor(durationSeconds * MOCK_AUDIO_SAMPLE_RATE);
+    const baseFrequency = 180 + (hashString(voiceName) % 120);
+    const pcm = new Int16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+        const t = i / MOCK_AUDIO_SAMPLE_RATE;
+        const frequency = Math.floor(t * 4) % 2 === 0 ? baseFrequency : baseFrequency * 1.5;
+        const envelope = Math.min(1, t * 10, (durationSeconds - t) * 10);
+        pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0.3 * 32767);
+    }
+    return pcm;
+}
+
+async function generateAudio(text: string, voiceName: string): Promise<string> {
+    await delay(300);
+    return encode(new Uint8Array(synthesizeChime(text, voiceName).buffer));
+}
+
+/** Plays each line as a chime pitched by its speaker's voice. */
+async function generateDialogueAudio(lines: DialogueLine[], speakers: DialogueSpeaker[]): Promise<string> {
+    await delay(300);
+    const voices = new Map(speakers.map(speaker => [speaker.name, speaker.voice]));
+    const segments = lines.map(line => synthesizeChime(line.text, voices.get(line.speaker) ?? line.speaker));
+    return encode(concatPcm(segments.map(segment => new Uint8Array(segment.buffer))));
+}
+
+/** Replays scripted utterances, alternating between two labelled speakers. */
+function startTranscription(callbacks: TranscriptionCallbacks): TranscriptionSession {
+    const sessionStartedAt = Date.now();
+    let utteranceIndex = 0;
+    let wordIndex = 0;
+    let utteranceStartMs = 0;
+    const interval = setInterval(() => {
+        const words = mockTranscriptUtterances[utteranceIndex % mockTranscriptUtterances.length].split(' ');
+        const nowMs = Date.now() - sessionStartedAt;
+        if (wordIndex === 0) {
+            utteranceStartMs = Math.max(0, nowMs - MOCK_TRANSCRIPT_INTERVAL_MS);
+        }
+        wordIndex = Math.min(wordIndex + 3, words.length);
+        const isFinal = wordIndex === words.length;
+        callbacks.onTranscriptionUpdate({
+            text: words.slice(0, wordIndex).join(' '),
+            isFinal,
+            startMs: utteranceStartMs,
+            endMs: nowMs,
+            speaker: `Speaker ${(utteranceIndex % 2) + 1}`,
+        });
+        if (isFinal) {
+            utteranceIndex++;
+            wordIndex = 0;
+        }
+    }, MOCK_TRANSCRIPT_INTERVAL_MS);
+
+    return {
+        sendAudio: () => {
+            // Audio is ignored; the transcript is scripted.
+        },
+        close: () => {
+            clearInterval(interval);
+            callbacks.onClose();
+        },
+    };
+}
+
+async function transcribeFile(file: File, options: AnalysisOptions = {}): Promise<TranscriptionUpdate[]> {
+    if (file.size > INLINE_FILE_SIZE_LIMIT_BYTES) {
+        for (let step = 0; step <= MOCK_UPLOAD_STEPS; step++) {
+            options.onUploadProgress?.(step / MOCK_UPLOAD_STEPS);
+            await delay(100);
+        }
+    }
+    await delay(500);
+    return mockTranscriptUtterances.map((text, i) => ({
+        text: i === 0 ? `${text} (${file.name})` : text,
+        isFinal: true,
+        startMs: i * MOCK_TRANSCRIPT_INTERVAL_MS * 2,
+        endMs: (i * 2 + 1) * MOCK_TRANSCRIPT_INTERVAL_MS,
+        speaker: `Speaker ${(i % 2) + 1}`,
+    }));
+}
+
+function pcmRms(base64Pcm: string): number {
+    const bytes = decode(base64Pcm);
+    const samples = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Plays a scripted exchange on a timer, speaking each reply as chimes. Loud
+ * microphone input during a reply interrupts it, so barge-in can be tried offline.
+ */
+function startConversation(options: ConversationOptions, callbacks: ConversationCallbacks): ConversationSession {
+    let exchangeIndex = 0;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let reply: string | null = null;
+
+    const wait = (ms: number, next: () => void) => {
+        timeout = setTimeout(next, ms);
+    };
+
+    const nextExchange = () => {
+        const { user, reply: replyText } = mockConversation[exchangeIndex++ % mockConversation.length];
+        const words = user.split(' ');
+        callbacks.onTranscript({ role: 'user', text: words.slice(0, Math.ceil(words.length / 2)).join(' '), isFinal: false });
+        wait(MOCK_TRANSCRIPT_INTERVAL_MS, () => {
+            callbacks.onTranscript({ role: 'user', text: user, isFinal: true });
+            const pcm = synthesizeChime(replyText, options.voiceName);
+            // Delivered in chunks, the way a streaming reply arrives.
+            for (let offset = 0; offset < pcm.length; offset += MOCK_REPLY_CHUNK_SAMPLES) {
+                callbacks.onAudio(encode(new Uint8Array(pcm.slice(offset, offset + MOCK_REPLY_CHUNK_SAMPLES).buffer)));
+            }
+            reply = replyText;
+            callbacks.onTranscript({ role: 'model', text: replyText, isFinal: false });
+            wait((pcm.length / MOCK_AUDIO_SAMPLE_RATE) * 1000, () => {
+                reply = null;
+                callbacks.onTranscript({ role: 'model', text: replyText, isFinal: true });
+                wait(MOCK_TRANSCRIPT_INTERVAL_MS, nextExchange);
+            });
+        });
+    };
+
+    wait(MOCK_TRANSCRIPT_INTERVAL_MS, nextExchange);
+
+    return {
+        sendAudio: (pcmBlob) => {
+            if (reply === null || !pcmBlob.data || pcmRms(pcmBlob.data) < MOCK_BARGE_IN_RMS) return;
+            if (timeout) clearTimeout(timeout);
+            callbacks.onTranscript({ role: 'model', text: reply, isFinal: true, interrupted: true });
+            callbacks.onInterrupted();
+            reply = null;
+            wait(MOCK_TRANSCRIPT_INTERVAL_MS, nextExchange);
+        },
+        close: () => {
+            if (timeout) clearTimeout(timeout);
+            callbacks.onClose();
+        },
+    };
+}
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    mediaModels: {
+        image: 'mock-image',
+        video: 'mock-video',
+        audio: 'mock-tts',
+    },
+    chatModels: ['mock-chat'],
+    streamChat,
+    clearChat,
+    startAnalysis,
+    imageCapabilities,
+    generateImage,
+    imageEditModel: 'mock-image-edit',
+    editImage,
+    enhancePrompt,
+    videoModels,
+    startVideoGeneration,
+    getVideoOperation,
+    downloadVideo,
+    generateAudio,
+    maxDialogueSpeakers: 2,
+    generateDialogueAudio,
+    startTranscription,
+    transcribeFile,
+    startConversation,
+};
@@ -0,0 +1,147 @@
+import type { ChatPersona } from "../types";
+import { getAllRecords, putRecord, deleteRecord } from "../utils/db";
+
+// Shared files carry persona settings only; ids and dates are assigned on import.
+const PERSONA_FILE_VERSION = 1;
+
+export const DEFAULT_SYSTEM_INSTRUCTION = 'You are Mani Ai, a helpful and friendly AI assistant. Your responses should be informative and easy to understand.';
+
+// Their ids match the personalities conversations were saved with before personas were configurable.
+const BUILT_IN_PERSONAS: ChatPersona[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Balanced and helpful responses.',
+    systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+    model: 'gemini-2.5-flash',
+    createdAt: 0,
+    builtIn: true,
+  },
+  {
+    id: 'fast',
+    name: 'Fast',
+    description: 'Quick, low-latency answers.',
+    systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+    model: 'gemini-flash-lite-latest',
+    createdAt: 0,
+    builtIn: true,
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    description: 'For complex queries needing deeper thought.',
+    systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+    model: 'gemini-2.5-pro',
+    thinkingBudget: 32768,
+    createdAt: 0,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PERSONA_ID = BUILT_IN_PERSONAS[0].id;
+
+export type PersonaSettings = Omit<ChatPersona, 'id' | 'createdAt' | 'builtIn'>;
+
+interface PersonaFile {
+  version: number;
+  personas: PersonaSettings[];
+}
+
+export function createPersona(settings: PersonaSettings): ChatPersona {
+  return { ...settings, id: crypto.randomUUID(), createdAt: Date.now() };
+}
+
+export async function listPersonas(): Promise<ChatPersona[]> {
+  const custom = await getAllRecords<ChatPersona>('personas');
+  return [...BUILT_IN_PERSONAS, ...custom.sort((a, b) => a.createdAt - b.createdAt)];
+}
+
+export function savePersona(persona: ChatPersona): Promise<void> {
+  return putRecord('personas', persona);
+}
+
+export function deletePersona(id: string): Promise<void> {
+  return deleteRecord('personas', id);
+}
+
+/** The persona with this id, or the default one if it was deleted. */
+export function resolvePersona(id: string, personas: ChatPersona[]): ChatPersona {
+  return personas.find(p => p.id === id) ?? BUILT_IN_PERSONAS[0];
+}
+
+/** Returns what is wrong with the settings, or null if they can be saved. */
+export function validatePersona(settings: PersonaSettings): string | null {
+  const { temperature, topP, maxOutputTokens, thinkingBudget } = settings;
+  if (!settings.name.trim()) return 'Give the persona a name.';
+  if (!settings.model.trim()) return 'Choose a model.';
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) return 'Temperature must be between 0 and 2.';
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) return 'Top P must be between 0 and 1.';
+  if (maxOutputTokens !== undefined && !(Number.isInteger(maxOutputTokens) && maxOutputTokens > 0)) {
+    return 'Max output tokens must be a whole number above 0.';
+  }
+  if (thinkingBudget !== undefined && !(Number.isInteger(thinkingBudget) && thinkingBudget >= -1)) {
+    return 'Thinking budget must be a whole number, or -1 to let the model decide.';
+  }
+  return null;
+}
+
+function toSettings({ name, description, systemInstruction, model, temperature, topP, maxOutputTokens, thinkingBudget }: ChatPersona): PersonaSettings {
+  return { name, description, systemInstruction, model, temperature, topP, maxOutputTokens, thinkingBudget };
+}
+
+export function exportPersonas(personas: ChatPersona[]): Blob {
+  const file: PersonaFile = {
+    version: PERSONA_FILE_VERSION,
+    personas: personas.filter(p => !p.builtIn).map(toSettings),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+function readPersonaSettings(entry: unknown): PersonaSettings {
+  const data = (entry ?? {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof data[key] === 'string' ? data[key].trim() : '');
+  const number = (key: string) => (typeof data[key] === 'number' ? data[key] : undefined);
+  return {
+    name: text('name'),
+    description: text('description'),
+    systemInstruction: text('systemInstruction'),
+    model: text('model'),
+    temperature: number('temperature'),
+    topP: number('topP'),
+    maxOutputTokens: number('maxOutputTokens'),
+    thinkingBudget: number('thinkingBudget'),
+  };
+}
+
+export interface PersonaImportResult {
+  imported: ChatPersona[];
+  // Entries that were invalid or identical to a persona already saved.
+  skipped: number;
+}
+
+/** Saves the valid, new personas in an exported file. */
+export async function importPersonas(json: string, existing: ChatPersona[]): Promise<PersonaImportResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = (data as Partial<PersonaFile> | null)?.personas;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file does not contain personas.");
+  }
+
+  const known = new Set(existing.map(p => JSON.stringify(toSettings(p))));
+  const imported: ChatPersona[] = [];
+  for (const entry of entries) {
+    const settings = readPersonaSettings(entry);
+    const key = JSON.stringify(settings);
+    if (validatePersona(settings) || known.has(key)) continue;
+    known.add(key);
+    const persona = createPersona(settings);
+    await savePersona(persona);
+    imported.push(persona);
+  }
+  return { imported, skipped: entries.length - imported.length };
+}
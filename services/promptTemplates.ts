@@ -0,0 +1,97 @@
+import type { PromptTemplate } from "../types";
+import { getAllRecords, putRecord, deleteRecord } from "../utils/db";
+
+// Shared files carry only names and templates; ids and dates are assigned on import.
+const TEMPLATE_FILE_VERSION = 1;
+const VARIABLE_PATTERN = /\{([A-Za-z][\w-]*)\}/g;
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'built-in-cinematic',
+    name: 'Cinematic shot',
+    template: 'A cinematic shot of {subject}, {style}, dramatic lighting, shallow depth of field, anamorphic lens',
+    createdAt: 0,
+    builtIn: true,
+  },
+  {
+    id: 'built-in-product',
+    name: 'Product photo',
+    template: 'A studio product photo of {subject} on a {background} background, soft diffused lighting, crisp detail, {style}',
+    createdAt: 0,
+    builtIn: true,
+  },
+  {
+    id: 'built-in-illustration',
+    name: 'Illustration',
+    template: 'An illustration of {subject} in the style of {style}, bold shapes, limited colour palette',
+    createdAt: 0,
+    builtIn: true,
+  },
+];
+
+export type NewPromptTemplate = Pick<PromptTemplate, 'name' | 'template'>;
+
+interface PromptTemplateFile {
+  version: number;
+  templates: NewPromptTemplate[];
+}
+
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const custom = await getAllRecords<PromptTemplate>('promptTemplates');
+  return [...BUILT_IN_TEMPLATES, ...custom.sort((a, b) => a.createdAt - b.createdAt)];
+}
+
+export async function savePromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate> {
+  const saved: PromptTemplate = { ...template, id: crypto.randomUUID(), createdAt: Date.now() };
+  await putRecord('promptTemplates', saved);
+  return saved;
+}
+
+export function deletePromptTemplate(id: string): Promise<void> {
+  return deleteRecord('promptTemplates', id);
+}
+
+/** Variable names in the order they first appear, e.g. `subject` for `{subject}`. */
+export function getTemplateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+/** Replaces each variable with its value; variables without one keep their placeholder. */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
+
+export function exportPromptTemplates(templates: PromptTemplate[]): Blob {
+  const file: PromptTemplateFile = {
+    version: TEMPLATE_FILE_VERSION,
+    templates: templates.filter(t => !t.builtIn).map(({ name, template }) => ({ name, template })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Saves the templates in an exported file and resolves to the new ones.
+ * Templates identical to one already in `existing` are skipped.
+ */
+export async function importPromptTemplates(json: string, existing: PromptTemplate[]): Promise<PromptTemplate[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = (data as Partial<PromptTemplateFile> | null)?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file does not contain prompt templates.");
+  }
+
+  const imported: PromptTemplate[] = [];
+  for (const entry of entries) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const template = typeof entry?.template === 'string' ? entry.template.trim() : '';
+    if (!name || !template) continue;
+    if ([...existing, ...imported].some(t => t.name === name && t.template === template)) continue;
+    imported.push(await savePromptTemplate({ name, template }));
+  }
+  return imported;
+}
@@ -0,0 +1,92 @@
+import type { SpeechDelivery, SpeechPace } from "../types";
+
+// Delivery settings become a natural-language instruction that precedes the text,
+// which is how the TTS models take direction on tone, pace and accent.
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  instruction: string;
+}
+
+export interface SpeechLanguage {
+  code: string;
+  label: string;
+  instruction: string;
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'cheerful', label: 'Cheerful', instruction: 'cheerfully' },
+  { id: 'calm', label: 'Calm', instruction: 'in a calm, soothing tone' },
+  { id: 'excited', label: 'Excited', instruction: 'with excitement' },
+  { id: 'serious', label: 'Serious', instruction: 'in a serious tone' },
+  { id: 'sad', label: 'Sad', instruction: 'sadly' },
+  { id: 'whisper', label: 'Whisper', instruction: 'in a whisper' },
+  { id: 'storyteller', label: 'Storyteller', instruction: 'like a storyteller reading aloud' },
+  { id: 'newscaster', label: 'Newscaster', instruction: 'like a news anchor' },
+];
+
+export const SPEECH_PACES: { value: SpeechPace; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Fast' },
+];
+
+const paceInstructions: Record<SpeechPace, string | undefined> = {
+  slow: 'at a slow, unhurried pace',
+  normal: undefined,
+  fast: 'at a quick pace',
+};
+
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  { code: 'en-US', label: 'English (US)', instruction: 'in English with an American accent' },
+  { code: 'en-GB', label: 'English (UK)', instruction: 'in English with a British accent' },
+  { code: 'en-IN', label: 'English (India)', instruction: 'in English with an Indian accent' },
+  { code: 'hi-IN', label: 'Hindi', instruction: 'in Hindi' },
+  { code: 'bn-BD', label: 'Bengali', instruction: 'in Bengali' },
+  { code: 'ta-IN', label: 'Tamil', instruction: 'in Tamil' },
+  { code: 'te-IN', label: 'Telugu', instruction: 'in Telugu' },
+  { code: 'mr-IN', label: 'Marathi', instruction: 'in Marathi' },
+  { code: 'es-US', label: 'Spanish', instruction: 'in Spanish' },
+  { code: 'fr-FR', label: 'French', instruction: 'in French' },
+  { code: 'de-DE', label: 'German', instruction: 'in German' },
+  { code: 'it-IT', label: 'Italian', instruction: 'in Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)', instruction: 'in Brazilian Portuguese' },
+  { code: 'nl-NL', label: 'Dutch', instruction: 'in Dutch' },
+  { code: 'pl-PL', label: 'Polish', instruction: 'in Polish' },
+  { code: 'ro-RO', label: 'Romanian', instruction: 'in Romanian' },
+  { code: 'ru-RU', label: 'Russian', instruction: 'in Russian' },
+  { code: 'uk-UA', label: 'Ukrainian', instruction: 'in Ukrainian' },
+  { code: 'tr-TR', label: 'Turkish', instruction: 'in Turkish' },
+  { code: 'ar-EG', label: 'Arabic (Egypt)', instruction: 'in Egyptian Arabic' },
+  { code: 'ja-JP', label: 'Japanese', instruction: 'in Japanese' },
+  { code: 'ko-KR', label: 'Korean', instruction: 'in Korean' },
+  { code: 'id-ID', label: 'Indonesian', instruction: 'in Indonesian' },
+  { code: 'th-TH', label: 'Thai', instruction: 'in Thai' },
+  { code: 'vi-VN', label: 'Vietnamese', instruction: 'in Vietnamese' },
+];
+
+export const DEFAULT_SPEECH_DELIVERY: SpeechDelivery = {
+  presets: [],
+  direction: '',
+  pace: 'normal',
+  language: '',
+};
+
+/**
+ * Combines an alias's default style with the chosen delivery into one instruction,
+ * or returns undefined when there is nothing to ask for.
+ */
+export function buildStylePrompt(delivery: SpeechDelivery, baseStyle?: string): string | undefined {
+  const manner = [
+    ...delivery.presets.map(id => STYLE_PRESETS.find(preset => preset.id === id)?.instruction),
+    paceInstructions[delivery.pace],
+    SPEECH_LANGUAGES.find(language => language.code === delivery.language)?.instruction,
+  ].filter(Boolean);
+  const sentences = [
+    baseStyle?.trim(),
+    manner.length > 0 ? `Say it ${manner.join(', ')}` : undefined,
+    delivery.direction.trim(),
+  ].filter(Boolean);
+  return sentences.length > 0 ? sentences.join('. ') : undefined;
+}
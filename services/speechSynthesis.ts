@@ -0,0 +1,181 @@
+import type { DialogueLine, DialogueSpeaker } from "../types";
+import { generateAudio, generateDialogueAudio } from "./aiService";
+import { decode } from "../utils/audioUtils";
+import { formatDialogueScript, parseDialogueScript } from "../utils/dialogueScript";
+
+// Long scripts are synthesized piece by piece: a single TTS request truncates or fails
+// well before article length, so the text is split at natural pauses and the PCM of
+// each piece is stitched back together in order.
+
+const DEFAULT_MAX_CHUNK_CHARS = 1200;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 1000;
+// Average narration pace, only used for the up-front duration estimate.
+const WORDS_PER_SECOND = 2.5;
+
+// Who reads a chunk: a single voice, or a voice per speaker for dialogue scripts.
+export type SpeechCast = { voice: string; stylePrompt?: string } | { speakers: DialogueSpeaker[] };
+
+export type SpeechChunkStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export interface SpeechChunkUpdate {
+  status: SpeechChunkStatus;
+  attempt: number;
+  error?: string;
+}
+
+export interface SpeechSynthesisOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  onChunkUpdate?: (index: number, update: SpeechChunkUpdate) => void;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Sentences end at terminal punctuation followed by whitespace, so "3.14", "example.com"
+// and a leading "..." stay intact; text that already fits is returned unchanged.
+function splitSentences(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+  return paragraph.split(/(?<=[.!?…]["'”’)\]]*)\s+/).filter(Boolean);
+}
+
+// Sentences that alone exceed the limit are broken at word boundaries.
+function splitAtWords(sentence: string, maxChars: number): string[] {
+  if (sentence.length <= maxChars) return [sentence];
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of sentence.split(' ')) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits text into chunks of at most `maxChars`, packing whole sentences and
+ * keeping paragraph breaks so each request ends at a natural pause.
+ */
+export function splitTextForSpeech(text: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    splitSentences(paragraph, maxChars).flatMap(sentence => splitAtWords(sentence, maxChars)).forEach((piece, i) => {
+      const separator = i === 0 ? '\n\n' : ' ';
+      if (current && current.length + separator.length + piece.length > maxChars) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? current + separator + piece : piece;
+      }
+    });
+  });
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits a dialogue into script chunks of whole turns. A turn too long for one
+ * chunk is divided at sentence boundaries and each part keeps its speaker.
+ */
+export function splitDialogueForSpeech(lines: DialogueLine[], maxChars = DEFAULT_MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current: DialogueLine[] = [];
+  let currentLength = 0;
+  lines.forEach(line => {
+    const budget = maxChars - line.speaker.length - 2;
+    splitSentences(line.text, budget).flatMap(sentence => splitAtWords(sentence, budget)).reduce<string[]>((parts, piece) => {
+      const last = parts[parts.length - 1];
+      if (last !== undefined && last.length + 1 + piece.length <= budget) {
+        parts[parts.length - 1] = `${last} ${piece}`;
+      } else {
+        parts.push(piece);
+      }
+      return parts;
+    }, []).forEach(text => {
+      const length = line.speaker.length + 2 + text.length + 1;
+      if (current.length > 0 && currentLength + length > maxChars) {
+        chunks.push(formatDialogueScript(current));
+        current = [];
+        currentLength = 0;
+      }
+      current.push({ speaker: line.speaker, text });
+      currentLength += length;
+    });
+  });
+  if (current.length > 0) chunks.push(formatDialogueScript(current));
+  return chunks;
+}
+
+export function estimateSpeechDuration(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return words / WORDS_PER_SECOND;
+}
+
+function requestSpeech(text: string, cast: SpeechCast): Promise<string> {
+  if ('speakers' in cast) {
+    return generateDialogueAudio(parseDialogueScript(text), cast.speakers);
+  }
+  return generateAudio(text, cast.voice, { stylePrompt: cast.stylePrompt });
+}
+
+/** Synthesizes one chunk to raw PCM, retrying transient failures with backoff. */
+export async function synthesizeSpeechChunk(
+  text: string,
+  cast: SpeechCast,
+  index: number,
+  options: SpeechSynthesisOptions = {},
+): Promise<Uint8Array> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, onChunkUpdate } = options;
+  for (let attempt = 1; ; attempt++) {
+    onChunkUpdate?.(index, { status: 'generating', attempt });
+    try {
+      const pcm = decode(await requestSpeech(text, cast));
+      onChunkUpdate?.(index, { status: 'done', attempt });
+      return pcm;
+    } catch (err) {
+      if (attempt >= maxAttempts) {
+        const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+        onChunkUpdate?.(index, { status: 'failed', attempt, error: message });
+        throw err;
+      }
+      await wait(RETRY_BACKOFF_MS * attempt);
+    }
+  }
+}
+
+/**
+ * Synthesizes chunks with at most `concurrency` requests in flight. Results keep
+ * the input order; chunks that still fail after retrying are returned as null.
+ */
+export async function synthesizeSpeechChunks(
+  chunks: string[],
+  cast: SpeechCast,
+  options: SpeechSynthesisOptions = {},
+): Promise<(Uint8Array | null)[]> {
+  const { concurrency = DEFAULT_CONCURRENCY } = options;
+  const results: (Uint8Array | null)[] = new Array(chunks.length).fill(null);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < chunks.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await synthesizeSpeechChunk(chunks[index], cast, index, options);
+      } catch (err) {
+        console.error(`Failed to synthesize speech chunk ${index + 1}:`, err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return results;
+}
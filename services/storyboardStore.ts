@@ -0,0 +1,33 @@
+import type { Storyboard, StoryboardShot, VideoAspectRatio } from "../types";
+import { getAllRecords, putRecord, deleteRecord } from "../utils/db";
+
+export const DEFAULT_STORYBOARD_TITLE = 'Untitled storyboard';
+
+export function createShot(): StoryboardShot {
+  return { id: crypto.randomUUID(), prompt: '' };
+}
+
+export function createStoryboard(aspectRatio: VideoAspectRatio = '16:9'): Storyboard {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_STORYBOARD_TITLE,
+    aspectRatio,
+    shots: [createShot()],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function listStoryboards(): Promise<Storyboard[]> {
+  const storyboards = await getAllRecords<Storyboard>('storyboards');
+  return storyboards.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveStoryboard(storyboard: Storyboard): Promise<void> {
+  return putRecord('storyboards', storyboard);
+}
+
+export function deleteStoryboard(id: string): Promise<void> {
+  return deleteRecord('storyboards', id);
+}
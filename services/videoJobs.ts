@@ -0,0 +1,255 @@
+import type { AIProviderId, VideoGenerationConfig } from "./aiProvider";
+import { downloadVideo, getActiveProviderId, getVideoOperation, startVideoGeneration } from "./aiService";
+import { getMediaItem, saveMediaItem } from "./mediaLibrary";
+import { deleteRecord, getAllRecords, putRecord } from "../utils/db";
+
+// Video generations run for minutes, so they are managed here rather than in
+// VideoMode: polling carries on across mode switches, and each job's operation
+// name is persisted so polling resumes after a reload.
+
+const POLL_INTERVAL_MS = 10000;
+// Jobs beyond this wait in the queue instead of competing for quota.
+const MAX_RUNNING_JOBS = 3;
+
+export type VideoJobStatus = 'queued' | 'generating' | 'fetching' | 'completed' | 'failed' | 'cancelled';
+
+export interface VideoJob {
+  id: string;
+  prompt: string;
+  /** Input images are kept until the job starts, so a queued job survives a reload. */
+  config: VideoGenerationConfig;
+  /** Operations can only be polled through the provider that started them. */
+  provider: AIProviderId;
+  status: VideoJobStatus;
+  /** Set once the provider accepts the job. */
+  operationName?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  /** Library items holding the finished videos. */
+  mediaItemIds?: string[];
+}
+
+export interface VideoJobResult {
+  url: string;
+  /** Provider URI, for extending the clip while the service still holds it. */
+  videoUri?: string;
+}
+
+type VideoJobListener = (jobs: VideoJob[]) => void;
+
+let jobs: VideoJob[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<VideoJobListener>();
+const pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const results = new Map<string, Promise<VideoJobResult>>();
+
+export function isVideoJobActive(job: VideoJob): boolean {
+  return job.status === 'queued' || job.status === 'generating' || job.status === 'fetching';
+}
+
+function notify(): void {
+  const snapshot = [...jobs];
+  listeners.forEach(listener => listener(snapshot));
+}
+
+function findJob(id: string): VideoJob | undefined {
+  return jobs.find(job => job.id === id);
+}
+
+function updateJob(id: string, changes: Partial<VideoJob>): VideoJob | undefined {
+  let updated: VideoJob | undefined;
+  jobs = jobs.map(job => (job.id === id ? (updated = { ...job, ...changes }) : job));
+  if (updated) {
+    putRecord('videoJobs', updated).catch(err => console.error("Failed to save video job:", err));
+    notify();
+  }
+  return updated;
+}
+
+function failJob(id: string, err: unknown): void {
+  console.error("Video job failed:", err);
+  // A job cancelled while a request was in flight stays cancelled.
+  if (findJob(id)?.status === 'cancelled') return;
+  updateJob(id, {
+    status: 'failed',
+    error: err instanceof Error ? err.message : 'An unknown error occurred.',
+    finishedAt: Date.now(),
+  });
+  startQueuedJobs();
+}
+
+function schedulePoll(id: string, delayMs = POLL_INTERVAL_MS): void {
+  pollTimers.set(id, setTimeout(() => {
+    pollTimers.delete(id);
+    pollJob(id);
+  }, delayMs));
+}
+
+async function pollJob(id: string): Promise<void> {
+  const job = findJob(id);
+  if (!job?.operationName || (job.status !== 'generating' && job.status !== 'fetching')) return;
+  try {
+    const operation = await getVideoOperation(job.operationName);
+    if (findJob(id)?.status === 'cancelled') return;
+    if (!operation.done) {
+      schedulePoll(id);
+      return;
+    }
+
+    updateJob(id, { status: 'fetching' });
+    // Saved items are recorded one by one, in the operation's order, so a
+    // download interrupted by a reload resumes after the videos already saved.
+    const mediaItemIds = [...(job.mediaItemIds ?? [])];
+    for (const videoUri of operation.videoUris.slice(mediaItemIds.length)) {
+      const blob = await downloadVideo(videoUri);
+      if (findJob(id)?.status === 'cancelled') return;
+      const item = await saveMediaItem({
+        kind: 'video',
+        prompt: job.prompt,
+        model: job.config.model,
+        blob,
+        mimeType: blob.type || 'video/mp4',
+        settings: { aspectRatio: job.config.aspectRatio, resolution: job.config.resolution },
+        videoUri,
+      });
+      mediaItemIds.push(item.id);
+      updateJob(id, { mediaItemIds: [...mediaItemIds] });
+    }
+    updateJob(id, { status: 'completed', mediaItemIds, finishedAt: Date.now() });
+    startQueuedJobs();
+  } catch (err) {
+    failJob(id, err);
+  }
+}
+
+async function runJob(job: VideoJob): Promise<void> {
+  updateJob(job.id, { status: 'generating', startedAt: Date.now() });
+  try {
+    const operationName = await startVideoGeneration(job.prompt, job.config);
+    // The operation still runs if the job was cancelled meanwhile; its result is ignored.
+    if (findJob(job.id)?.status === 'cancelled') return;
+    updateJob(job.id, { operationName, config: withoutInputImages(job.config) });
+    schedulePoll(job.id);
+  } catch (err) {
+    failJob(job.id, err);
+  }
+}
+
+function withoutInputImages(config: VideoGenerationConfig): VideoGenerationConfig {
+  return { ...config, imageFile: undefined, lastFrameFile: undefined, referenceImages: undefined };
+}
+
+function startQueuedJobs(): void {
+  let running = jobs.filter(job => job.status === 'generating' || job.status === 'fetching').length;
+  // Oldest first.
+  const queued = jobs.filter(job => job.status === 'queued').sort((a, b) => a.createdAt - b.createdAt);
+  for (const job of queued) {
+    if (running >= MAX_RUNNING_JOBS) break;
+    running++;
+    runJob(job);
+  }
+}
+
+function loadJobs(): Promise<void> {
+  loadPromise ??= getAllRecords<VideoJob>('videoJobs')
+    .then(stored => {
+      jobs = stored.sort((a, b) => b.createdAt - a.createdAt);
+      const providerId = getActiveProviderId();
+      for (const job of jobs) {
+        if (job.status !== 'generating' && job.status !== 'fetching') continue;
+        if (job.provider !== providerId) {
+          failJob(job.id, new Error(`Started with the ${job.provider} provider, which is no longer active.`));
+        } else if (job.operationName) {
+          // Picks up from polling; a job that was downloading fetches the videos it has not saved yet.
+          updateJob(job.id, { status: 'generating' });
+          schedulePoll(job.id, 0);
+        } else {
+          // The page closed before the provider answered, so the operation is unknown.
+          failJob(job.id, new Error("The page was closed before the job started."));
+        }
+      }
+      startQueuedJobs();
+      notify();
+    })
+    .catch(err => {
+      loadPromise = null;
+      console.error("Failed to load video jobs:", err);
+    });
+  return loadPromise;
+}
+
+/** Calls `listener` with every job, newest first, now and after each change. */
+export function subscribeToVideoJobs(listener: VideoJobListener): () => void {
+  listeners.add(listener);
+  loadJobs().then(() => {
+    if (listeners.has(listener)) listener([...jobs]);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function enqueueVideoJob(prompt: string, config: VideoGenerationConfig): Promise<VideoJob> {
+  await loadJobs();
+  const job: VideoJob = {
+    id: crypto.randomUUID(),
+    prompt,
+    config,
+    provider: getActiveProviderId(),
+    status: 'queued',
+    createdAt: Date.now(),
+  };
+  jobs = [job, ...jobs];
+  await putRecord('videoJobs', job);
+  notify();
+  startQueuedJobs();
+  return job;
+}
+
+/**
+ * Stops tracking a job. The service has no way to cancel a running operation,
+ * so it may still finish (and count against quota); the result is discarded.
+ */
+export function cancelVideoJob(id: string): void {
+  const timer = pollTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    pollTimers.delete(id);
+  }
+  const job = findJob(id);
+  if (!job) return;
+  updateJob(id, { status: 'cancelled', config: withoutInputImages(job.config), finishedAt: Date.now() });
+  startQueuedJobs();
+}
+
+/** Removes a finished job from the queue; its videos stay in the library. */
+export async function removeVideoJob(id: string): Promise<void> {
+  const job = findJob(id);
+  if (!job || isVideoJobActive(job)) return;
+  jobs = jobs.filter(j => j.id !== id);
+  notify();
+  for (const mediaItemId of job.mediaItemIds ?? []) {
+    const result = results.get(mediaItemId);
+    results.delete(mediaItemId);
+    result?.then(({ url }) => URL.revokeObjectURL(url)).catch(() => undefined);
+  }
+  await deleteRecord('videoJobs', id);
+}
+
+/** Loads one of a completed job's videos from the library. */
+export function getVideoJobResult(mediaItemId: string): Promise<VideoJobResult> {
+  let result = results.get(mediaItemId);
+  if (!result) {
+    result = getMediaItem(mediaItemId).then(item => {
+      if (item?.kind !== 'video') {
+        throw new Error("The video was deleted from the library.");
+      }
+      return { url: URL.createObjectURL(item.blob), videoUri: item.videoUri };
+    });
+    result.catch(() => results.delete(mediaItemId));
+    results.set(mediaItemId, result);
+  }
+  return result;
+}
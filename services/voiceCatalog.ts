@@ -0,0 +1,109 @@
+import type { PrebuiltVoice, VoiceAlias } from "../types";
+import { generateAudio, getActiveProviderId } from "./aiService";
+import { decode, pcmToWav } from "../utils/audioUtils";
+import { getAllRecords, getRecord, putRecord, deleteRecord } from "../utils/db";
+
+const TTS_SAMPLE_RATE = 24000;
+// Every prebuilt voice speaks all languages the TTS models support and detects the language from the text.
+const MULTILINGUAL = 'Multilingual';
+
+export const PREBUILT_VOICES: PrebuiltVoice[] = [
+  { name: 'Zephyr', description: 'Bright', language: MULTILINGUAL },
+  { name: 'Puck', description: 'Upbeat', language: MULTILINGUAL },
+  { name: 'Charon', description: 'Informative', language: MULTILINGUAL },
+  { name: 'Kore', description: 'Firm', language: MULTILINGUAL },
+  { name: 'Fenrir', description: 'Excitable', language: MULTILINGUAL },
+  { name: 'Leda', description: 'Youthful', language: MULTILINGUAL },
+  { name: 'Orus', description: 'Firm', language: MULTILINGUAL },
+  { name: 'Aoede', description: 'Breezy', language: MULTILINGUAL },
+  { name: 'Callirrhoe', description: 'Easy-going', language: MULTILINGUAL },
+  { name: 'Autonoe', description: 'Bright', language: MULTILINGUAL },
+  { name: 'Enceladus', description: 'Breathy', language: MULTILINGUAL },
+  { name: 'Iapetus', description: 'Clear', language: MULTILINGUAL },
+  { name: 'Umbriel', description: 'Easy-going', language: MULTILINGUAL },
+  { name: 'Algieba', description: 'Smooth', language: MULTILINGUAL },
+  { name: 'Despina', description: 'Smooth', language: MULTILINGUAL },
+  { name: 'Erinome', description: 'Clear', language: MULTILINGUAL },
+  { name: 'Algenib', description: 'Gravelly', language: MULTILINGUAL },
+  { name: 'Rasalgethi', description: 'Informative', language: MULTILINGUAL },
+  { name: 'Laomedeia', description: 'Upbeat', language: MULTILINGUAL },
+  { name: 'Achernar', description: 'Soft', language: MULTILINGUAL },
+  { name: 'Alnilam', description: 'Firm', language: MULTILINGUAL },
+  { name: 'Schedar', description: 'Even', language: MULTILINGUAL },
+  { name: 'Gacrux', description: 'Mature', language: MULTILINGUAL },
+  { name: 'Pulcherrima', description: 'Forward', language: MULTILINGUAL },
+  { name: 'Achird', description: 'Friendly', language: MULTILINGUAL },
+  { name: 'Zubenelgenubi', description: 'Casual', language: MULTILINGUAL },
+  { name: 'Vindemiatrix', description: 'Gentle', language: MULTILINGUAL },
+  { name: 'Sadachbia', description: 'Lively', language: MULTILINGUAL },
+  { name: 'Sadaltager', description: 'Knowledgeable', language: MULTILINGUAL },
+  { name: 'Sulafat', description: 'Warm', language: MULTILINGUAL },
+];
+
+// Names the app has always offered; earlier generations in the library refer to them.
+const BUILT_IN_ALIASES: VoiceAlias[] = [
+  { id: 'built-in-human', name: 'Human', baseVoice: 'Zephyr', stylePrompt: '', createdAt: 0, builtIn: true },
+  { id: 'built-in-prabhas', name: 'Prabhas', baseVoice: 'Fenrir', stylePrompt: '', createdAt: 0, builtIn: true },
+];
+
+export interface ResolvedVoice {
+  voice: string;
+  stylePrompt?: string;
+}
+
+interface VoicePreviewRecord {
+  id: string;
+  blob: Blob;
+}
+
+export async function listVoiceAliases(): Promise<VoiceAlias[]> {
+  const custom = await getAllRecords<VoiceAlias>('voiceAliases');
+  return [...BUILT_IN_ALIASES, ...custom.sort((a, b) => a.createdAt - b.createdAt)];
+}
+
+export async function saveVoiceAlias(alias: Omit<VoiceAlias, 'id' | 'createdAt' | 'builtIn'>): Promise<VoiceAlias> {
+  const saved: VoiceAlias = { ...alias, id: crypto.randomUUID(), createdAt: Date.now() };
+  await putRecord('voiceAliases', saved);
+  return saved;
+}
+
+export function deleteVoiceAlias(id: string): Promise<void> {
+  return deleteRecord('voiceAliases', id);
+}
+
+/**
+ * Maps an alias or prebuilt voice name to the prebuilt voice and style the provider should use.
+ * Built-in aliases resolve even before `aliases` has been loaded.
+ */
+export function resolveVoice(name: string, aliases: VoiceAlias[]): ResolvedVoice {
+  const alias = aliases.find(a => a.name === name) ?? BUILT_IN_ALIASES.find(a => a.name === name);
+  if (alias) {
+    return { voice: alias.baseVoice, stylePrompt: alias.stylePrompt || undefined };
+  }
+  return { voice: name };
+}
+
+const previewRequests = new Map<string, Promise<Blob>>();
+
+/**
+ * Returns a short WAV sample of a voice. Samples are generated once per provider,
+ * voice and style, then kept in IndexedDB so browsing voices costs no further requests.
+ */
+export function getVoicePreview({ voice, stylePrompt }: ResolvedVoice): Promise<Blob> {
+  const key = [getActiveProviderId(), voice, stylePrompt ?? ''].join('|');
+  let request = previewRequests.get(key);
+  if (!request) {
+    request = (async () => {
+      const cached = await getRecord<VoicePreviewRecord>('voicePreviews', key);
+      if (cached) return cached.blob;
+      const base64Audio = await generateAudio(`Hello! This is the ${voice} voice. Here's how I sound.`, voice, { stylePrompt });
+      const blob = pcmToWav(decode(base64Audio), TTS_SAMPLE_RATE, 1);
+      await putRecord<VoicePreviewRecord>('voicePreviews', { id: key, blob });
+      return blob;
+    })();
+    // Forget failed requests so the preview can be retried.
+    request.catch(() => previewRequests.delete(key));
+    previewRequests.set(key, request);
+  }
+  return request;
+}
@@ -1,8 +1,179 @@
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  // Base64 file contents, kept so the file can be re-sent as history.
+  data: string;
+}
+
 export interface Message {
   role: 'user' | 'model';
   text: string;
+  attachments?: Attachment[];
+  // Set on placeholder replies shown when a request fails; these are not sent back as history.
+  isError?: boolean;
+}
+
+export type Mode = 'chat' | 'analyze' | 'image' | 'video' | 'storyboard' | 'audio' | 'transcribe' | 'talk' | 'library';
+
+// A chat assistant: its instructions, model and generation settings.
+export interface ChatPersona {
+  id: string;
+  name: string;
+  description: string;
+  systemInstruction: string;
+  model: string;
+  // Generation settings; the model's defaults apply when one is absent.
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  // Tokens the model may spend thinking; 0 turns thinking off and -1 lets the model decide.
+  thinkingBudget?: number;
+  createdAt: number;
+  // Shipped with the app rather than created by the user; cannot be edited or deleted.
+  builtIn?: boolean;
+}
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ImageMimeType = 'image/png' | 'image/jpeg';
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type VideoResolution = '720p' | '1080p';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  personaId: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  // Library image used as the shot's first frame.
+  keyframeId?: string;
+  // Latest video job rendering this shot.
+  jobId?: string;
+  // Library video of the last finished render.
+  clipId?: string;
+}
+
+export interface Storyboard {
+  id: string;
+  title: string;
+  aspectRatio: VideoAspectRatio;
+  shots: StoryboardShot[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A reusable prompt whose `{variable}` placeholders are filled in when it is used.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  template: string;
+  createdAt: number;
+  // Shipped with the app rather than created by the user; cannot be deleted.
+  builtIn?: boolean;
+}
+
+export interface PrebuiltVoice {
+  name: string;
+  description: string;
+  language: string;
+}
+
+// A named shortcut to a prebuilt voice with a default speaking style.
+export interface VoiceAlias {
+  id: string;
+  name: string;
+  baseVoice: string;
+  stylePrompt: string;
+  createdAt: number;
+  // Shipped with the app rather than created by the user; cannot be deleted.
+  builtIn?: boolean;
+}
+
+export type SpeechPace = 'slow' | 'normal' | 'fast';
+
+export interface SpeechDelivery {
+  // Ids of the style presets to combine, e.g. 'cheerful'.
+  presets: string[];
+  // Free-form direction added after the presets.
+  direction: string;
+  pace: SpeechPace;
+  // Language code to speak in; empty to follow the text.
+  language: string;
+}
+
+export interface DialogueSpeaker {
+  name: string;
+  voice: string;
+  // Delivery instruction for this speaker, usually taken from a voice alias.
+  stylePrompt?: string;
+}
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  // Milliseconds from the start of the session.
+  startMs: number;
+  endMs: number;
+  speaker?: string;
+  isFinal: boolean;
+}
+
+export type MediaKind = 'image' | 'video' | 'audio';
+
+interface MediaLibraryItemBase {
+  id: string;
+  prompt: string;
+  model: string;
+  // Stored as a Blob so IndexedDB keeps the binary data without base64 overhead.
+  blob: Blob;
+  mimeType: string;
+  createdAt: number;
 }
 
-export type Mode = 'chat' | 'analyze' | 'image' | 'video' | 'audio' | 'transcribe';
+export interface ImageLibraryItem extends MediaLibraryItemBase {
+  kind: 'image';
+  settings: {
+    // Absent on edits, which keep the shape of their source image.
+    aspectRatio?: ImageAspectRatio;
+    outputMimeType: ImageMimeType;
+    negativePrompt?: string;
+    seed?: number;
+    // Set when the image is an edit and `prompt` describes the change.
+    edited?: boolean;
+  };
+}
+
+export interface VideoLibraryItem extends MediaLibraryItemBase {
+  kind: 'video';
+  settings: {
+    aspectRatio: VideoAspectRatio;
+    resolution?: VideoResolution;
+  };
+  // Provider URI of the clip, kept so it can be extended while the service still holds it.
+  videoUri?: string;
+}
+
+export interface AudioLibraryItem extends MediaLibraryItemBase {
+  kind: 'audio';
+  settings: {
+    voice: string;
+    // Present when the audio was generated from a dialogue script.
+    speakers?: DialogueSpeaker[];
+    delivery?: SpeechDelivery;
+  };
+}
 
-export type ChatPersonality = 'standard' | 'fast' | 'creative';
\ No newline at end of file
+export type MediaLibraryItem = ImageLibraryItem | VideoLibraryItem | AudioLibraryItem;
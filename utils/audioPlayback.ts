@@ -0,0 +1,65 @@
+import { decode, decodeAudioData } from './audioUtils';
+
+// A little headroom before the first chunk of a reply so network jitter on the
+// next chunk does not leave a gap.
+const START_DELAY_SECONDS = 0.05;
+
+export interface PlaybackQueue {
+  /** Schedules base64 16-bit mono PCM to start right after everything already queued. */
+  enqueue: (base64Audio: string) => void;
+  /** Stops the current chunk and drops the rest, e.g. when the user barges in. */
+  clear: () => void;
+  close: () => void;
+}
+
+/**
+ * Plays streamed PCM chunks back to back on one AudioContext. Each chunk is
+ * scheduled against the context clock rather than on `ended`, so there are no gaps.
+ */
+export function createPlaybackQueue(sampleRate: number, onPlayingChange?: (playing: boolean) => void): PlaybackQueue {
+  const context = new AudioContext({ sampleRate });
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+
+  const setPlaying = (playing: boolean) => onPlayingChange?.(playing);
+
+  return {
+    enqueue: (base64Audio) => {
+      if (context.state === 'closed') return;
+      const buffer = decodeAudioData(decode(base64Audio), context, sampleRate, 1);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      if (nextStartTime < context.currentTime) {
+        nextStartTime = context.currentTime + START_DELAY_SECONDS;
+      }
+      source.start(nextStartTime);
+      nextStartTime += buffer.duration;
+      source.onended = () => {
+        sources.delete(source);
+        if (sources.size === 0) setPlaying(false);
+      };
+      sources.add(source);
+      setPlaying(true);
+    },
+    clear: () => {
+      sources.forEach(source => {
+        source.onended = null;
+        source.stop();
+      });
+      sources.clear();
+      nextStartTime = 0;
+      setPlaying(false);
+    },
+    close: () => {
+      sources.forEach(source => {
+        source.onended = null;
+      });
+      sources.clear();
+      if (context.state !== 'closed') {
+        context.close();
+      }
+      setPlaying(false);
+    },
+  };
+}
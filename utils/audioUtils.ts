@@ -1,5 +1,9 @@
 
 import type { Blob } from "@google/genai";
+import { Mp3Encoder } from "@breezystack/lamejs";
+
+// LAME consumes 1152-sample MPEG-1 Layer III frames.
+const MP3_FRAME_SAMPLES = 1152;
 
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -20,12 +24,13 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-async function decodeAudioData(
+/** Copies raw little-endian 16-bit PCM into an AudioBuffer for `ctx`. */
+export function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
-): Promise<AudioBuffer> {
+): AudioBuffer {
   const dataInt16 = new Int16Array(data.buffer);
   // FIX: Corrected typo from dataInt116 to dataInt16
   const frameCount = dataInt16.length / numChannels;
@@ -42,7 +47,7 @@ async function decodeAudioData(
 
 export async function playAudio(base64Audio: string, audioContext: AudioContext) {
     const rawAudio = decode(base64Audio);
-    const audioBuffer = await decodeAudioData(rawAudio, audioContext, 24000, 1);
+    const audioBuffer = decodeAudioData(rawAudio, audioContext, 24000, 1);
     
     const source = audioContext.createBufferSource();
     source.buffer = audioBuffer;
@@ -50,11 +55,106 @@ export async function playAudio(base64Audio: string, audioContext: AudioContext)
     source.start();
 }
 
+/** Wraps raw little-endian 16-bit PCM in a WAV (RIFF) container. */
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number): globalThis.Blob {
+  const bytesPerSample = 2;
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM format
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  header.setUint16(32, numChannels * bytesPerSample, true);
+  header.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new globalThis.Blob([header.buffer, pcm], { type: 'audio/wav' });
+}
+
+/** Encodes mono 16-bit PCM as MP3 for a much smaller download than WAV. */
+export function pcmToMp3(pcm: Uint8Array, sampleRate: number, kbps = 128): globalThis.Blob {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < samples.length; i += MP3_FRAME_SAMPLES) {
+    const encoded = encoder.encodeBuffer(samples.subarray(i, i + MP3_FRAME_SAMPLES));
+    if (encoded.length > 0) chunks.push(encoded);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+  return new globalThis.Blob(chunks, { type: 'audio/mpeg' });
+}
+
+/** Joins PCM segments end to end into one contiguous track. */
+export function concatPcm(segments: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(segments.reduce((total, segment) => total + segment.byteLength, 0));
+  let offset = 0;
+  for (const segment of segments) {
+    joined.set(segment, offset);
+    offset += segment.byteLength;
+  }
+  return joined;
+}
+
+/** Formats seconds as m:ss. */
+export function formatDuration(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/** Returns `bucketCount` peak amplitudes (0-1) of mono 16-bit PCM, for drawing a waveform. */
+export function computeWaveformPeaks(pcm: Uint8Array, bucketCount: number): number[] {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  const bucketSize = Math.max(1, Math.floor(samples.length / bucketCount));
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    let peak = 0;
+    const end = Math.min((bucket + 1) * bucketSize, samples.length);
+    for (let i = bucket * bucketSize; i < end; i++) {
+      const amplitude = Math.abs(samples[i]);
+      if (amplitude > peak) peak = amplitude;
+    }
+    peaks.push(peak / 32768);
+  }
+  return peaks;
+}
+
+/**
+ * Decodes an audio or video file and returns its soundtrack as mono float samples
+ * at `sampleRate`. Decoding through an offline context at that rate does the resampling.
+ */
+export async function decodeFileToPcm(file: File, sampleRate: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await context.decodeAudioData(await file.arrayBuffer());
+  if (decoded.numberOfChannels === 1) {
+    return decoded.getChannelData(0);
+  }
+  const mono = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / decoded.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
 export function createPcmBlob(data: Float32Array): Blob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: out-of-range samples would otherwise wrap around and click.
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 32768 : sample * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
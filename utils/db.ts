@@ -0,0 +1,72 @@
+// Thin promise wrapper around the app's IndexedDB database. Every store uses
+// an `id` key path; add new stores to STORE_NAMES and bump DB_VERSION.
+const DB_NAME = 'mani-ai';
+const DB_VERSION = 7;
+const STORE_NAMES = ['conversations', 'media', 'voiceAliases', 'voicePreviews', 'videoJobs', 'storyboards', 'promptTemplates', 'personas'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer build in another tab upgrade the database; the next request here reopens it.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Failed to open local database."));
+    };
+    request.onblocked = () => {
+      dbPromise = null;
+      reject(new Error("The local database is being upgraded. Close other tabs of this app and reload."));
+    };
+  });
+  return dbPromise;
+}
+
+async function runRequest<T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Local database transaction failed."));
+    // Aborts such as running out of storage quota do not always raise an error event.
+    transaction.onabort = () => reject(transaction.error ?? new Error("Local database transaction was aborted."));
+  });
+}
+
+export function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  return runRequest(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export function getRecord<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+  return runRequest(storeName, 'readonly', store => store.get(id) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T extends { id: string }>(storeName: StoreName, value: T): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function deleteRecord(storeName: StoreName, id: string): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.delete(id));
+}
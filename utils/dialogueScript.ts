@@ -0,0 +1,32 @@
+import type { DialogueLine } from "../types";
+
+// Plain-text scripts hold one turn per line as "Speaker: what they say". Lines without
+// a speaker prefix continue the previous turn.
+const SPEAKER_LINE_PATTERN = /^([^:]{1,40}):\s*(.*)$/;
+
+export function parseDialogueScript(script: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  script.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const match = line.match(SPEAKER_LINE_PATTERN);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const previous = lines[lines.length - 1];
+      previous.text = previous.text ? `${previous.text} ${line}` : line;
+    } else {
+      throw new Error(`Line ${index + 1} has no speaker. Use the "Speaker: line" format.`);
+    }
+  });
+  return lines.filter(line => line.text);
+}
+
+export function formatDialogueScript(lines: DialogueLine[]): string {
+  return lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+}
+
+/** Speaker names in order of first appearance. */
+export function getScriptSpeakers(lines: DialogueLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.speaker)));
+}
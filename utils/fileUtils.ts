@@ -0,0 +1,57 @@
+import type { Attachment } from "../types";
+
+// Requests carrying inline base64 data are capped at about 20MB.
+export const INLINE_FILE_SIZE_LIMIT_BYTES = 20 * 1024 * 1024;
+
+export interface GenerativePart {
+    inlineData: { data: string; mimeType: string; };
+}
+
+export function fileToGenerativePart(file: File): Promise<GenerativePart> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            if (typeof reader.result !== 'string') {
+                return reject(new Error("Failed to read file as base64."));
+            }
+            const base64Data = reader.result.split(',')[1];
+            resolve({
+                inlineData: {
+                    data: base64Data,
+                    mimeType: file.type,
+                }
+            });
+        };
+        reader.onerror = (err) => reject(err);
+        reader.readAsDataURL(file);
+    });
+}
+
+export async function fileToAttachment(file: File): Promise<Attachment> {
+    const part = await fileToGenerativePart(file);
+    return {
+        name: file.name,
+        mimeType: part.inlineData.mimeType,
+        data: part.inlineData.data,
+    };
+}
+
+/** Size of the original file; base64 stores three bytes in every four characters. */
+export function attachmentSizeBytes(attachment: Attachment): number {
+    return Math.floor(attachment.data.length * 3 / 4);
+}
+
+export function attachmentToDataUrl(attachment: Attachment): string {
+    return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoke after the click has been dispatched so the download can start.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
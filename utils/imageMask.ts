@@ -0,0 +1,57 @@
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+/** One brush stroke. Points are fractions of the image width and height and size is a fraction of its width, so strokes survive resizing. */
+export interface MaskStroke {
+  points: MaskPoint[];
+  size: number;
+  erase: boolean;
+}
+
+/**
+ * Draws strokes onto a canvas the size of the image. Erasing strokes paint
+ * `eraseColor`, or cut through to transparency when it is omitted.
+ */
+export function drawMaskStrokes(ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string, eraseColor?: string): void {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const stroke of strokes) {
+    const [first, ...rest] = stroke.points;
+    if (!first) continue;
+    const paint = stroke.erase ? eraseColor ?? color : color;
+    ctx.globalCompositeOperation = stroke.erase && !eraseColor ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = paint;
+    ctx.fillStyle = paint;
+    ctx.lineWidth = stroke.size * width;
+    ctx.beginPath();
+    if (rest.length === 0) {
+      // A click without movement leaves a dot.
+      ctx.arc(first.x * width, first.y * height, ctx.lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    ctx.moveTo(first.x * width, first.y * height);
+    rest.forEach(point => ctx.lineTo(point.x * width, point.y * height));
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Renders strokes as a black and white mask, white where the image may change, and returns it as base64 PNG. */
+export function renderMask(strokes: MaskStroke[], width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas is not available for the mask.");
+  }
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  drawMaskStrokes(ctx, strokes, 'white', 'black');
+  return canvas.toDataURL('image/png').split(',')[1];
+}
@@ -0,0 +1,173 @@
+// Microphone capture on the audio rendering thread. An AudioWorklet collects the
+// input, resamples it to the rate the caller asks for when the device cannot open
+// at that rate, and posts fixed-size frames plus a level reading to the main thread.
+
+const DEFAULT_FRAME_SIZE = 4096;
+const LEVEL_INTERVAL_SECONDS = 0.05;
+// Levels are reported on a decibel scale from this floor (0) up to full scale (1).
+const LEVEL_FLOOR_DB = -60;
+
+const PROCESSOR_NAME = 'microphone-capture';
+
+// Loaded from a Blob URL so the worklet needs no separate build entry.
+const processorSource = `
+class MicrophoneCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize, levelIntervalSamples } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.frame = new Float32Array(frameSize);
+    this.frameLength = 0;
+    // Read position into the current input block; -1 refers to the last sample of the previous block.
+    this.position = 0;
+    this.previous = 0;
+    this.levelIntervalSamples = levelIntervalSamples;
+    this.levelSum = 0;
+    this.levelCount = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      this.levelSum += input[i] * input[i];
+    }
+    this.levelCount += input.length;
+    if (this.levelCount >= this.levelIntervalSamples) {
+      this.port.postMessage({ type: 'level', rms: Math.sqrt(this.levelSum / this.levelCount) });
+      this.levelSum = 0;
+      this.levelCount = 0;
+    }
+
+    // Linear interpolation; with a step of 1 this copies the input unchanged.
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previous : input[index];
+      const b = input[index + 1];
+      this.frame[this.frameLength++] = a + (b - a) * fraction;
+      if (this.frameLength === this.frame.length) {
+        const samples = this.frame.slice();
+        this.port.postMessage({ type: 'frame', samples }, [samples.buffer]);
+        this.frameLength = 0;
+      }
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', MicrophoneCaptureProcessor);
+`;
+
+export interface MicrophoneCaptureOptions {
+  /** Input device to open; the browser default when omitted. */
+  deviceId?: string;
+  /** Rate of the samples passed to `onAudio`. */
+  sampleRate: number;
+  /** Samples per `onAudio` call. */
+  frameSize?: number;
+  onAudio: (samples: Float32Array) => void;
+  /** Input level from 0 (silence) to 1 (full scale), about 20 times a second. */
+  onLevel?: (level: number) => void;
+}
+
+export interface MicrophoneCapture {
+  stop: () => void;
+}
+
+type ProcessorMessage = { type: 'frame'; samples: Float32Array } | { type: 'level'; rms: number };
+
+function rmsToLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB));
+}
+
+/** Lists audio inputs. Labels stay empty until the user has granted microphone access once. */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+// Some browsers refuse to connect a microphone to a context running at another
+// rate, so fall back to the device rate and let the worklet resample.
+function createSourceNode(stream: MediaStream, sampleRate: number): { context: AudioContext; source: MediaStreamAudioSourceNode } {
+  try {
+    const context = new AudioContext({ sampleRate });
+    try {
+      return { context, source: context.createMediaStreamSource(stream) };
+    } catch (err) {
+      context.close();
+      throw err;
+    }
+  } catch (err) {
+    console.warn(`Microphone cannot be captured at ${sampleRate} Hz; resampling instead.`, err);
+    const context = new AudioContext();
+    return { context, source: context.createMediaStreamSource(stream) };
+  }
+}
+
+export async function startMicrophoneCapture(options: MicrophoneCaptureOptions): Promise<MicrophoneCapture> {
+  const { deviceId, sampleRate, frameSize = DEFAULT_FRAME_SIZE, onAudio, onLevel } = options;
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+    },
+  });
+
+  let context: AudioContext | null = null;
+  try {
+    const nodes = createSourceNode(stream, sampleRate);
+    context = nodes.context;
+    const moduleUrl = URL.createObjectURL(new Blob([processorSource], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const worklet = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: {
+        targetSampleRate: sampleRate,
+        frameSize,
+        levelIntervalSamples: Math.round(context.sampleRate * LEVEL_INTERVAL_SECONDS),
+      },
+    });
+    worklet.port.onmessage = (event: MessageEvent<ProcessorMessage>) => {
+      if (event.data.type === 'frame') {
+        onAudio(event.data.samples);
+      } else {
+        onLevel?.(rmsToLevel(event.data.rms));
+      }
+    };
+    nodes.source.connect(worklet);
+
+    const activeContext = context;
+    return {
+      stop: () => {
+        worklet.port.onmessage = null;
+        nodes.source.disconnect();
+        worklet.disconnect();
+        stream.getTracks().forEach(track => track.stop());
+        if (activeContext.state !== 'closed') {
+          activeContext.close();
+        }
+      },
+    };
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    if (context && context.state !== 'closed') {
+      context.close();
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,53 @@
+export type DiffChange = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  text: string;
+  change: DiffChange;
+}
+
+// Words and punctuation are separate tokens, so adding a comma does not mark the word before it as changed.
+function tokenize(text: string): string[] {
+  return text.match(/[\p{L}\p{N}'’-]+\s*|[^\p{L}\p{N}\s]\s*|\s+/gu) ?? [];
+}
+
+/**
+ * Word-level diff of two texts through a longest common subsequence table.
+ * Whitespace stays attached to the token before it, so joining the unchanged
+ * and added parts gives back `after`. Quadratic, which is fine at prompt length.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // Compare words without their trailing whitespace, so a reflowed line is not a change.
+  const same = (i: number, j: number) => a[i].trim() === b[j].trim();
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffChange) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+}
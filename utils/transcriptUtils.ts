@@ -0,0 +1,98 @@
+import type { TranscriptSegment } from "../types";
+
+/** Formats milliseconds as h:mm:ss, dropping the hours while they are zero. */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export interface SpeakerTurn {
+  speaker?: string;
+  segments: TranscriptSegment[];
+}
+
+/** Groups consecutive segments from the same speaker into turns. */
+export function groupBySpeaker(segments: TranscriptSegment[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.segments.push(segment);
+    } else {
+      turns.push({ speaker: segment.speaker, segments: [segment] });
+    }
+  }
+  return turns;
+}
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+export const TRANSCRIPT_FORMATS: { value: TranscriptFormat; label: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SubRip subtitles (.srt)', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT subtitles (.vtt)', mimeType: 'text/vtt' },
+  { value: 'txt', label: 'Plain text (.txt)', mimeType: 'text/plain' },
+  { value: 'json', label: 'JSON (.json)', mimeType: 'application/json' },
+];
+
+// Players skip zero-length cues, so very short utterances are stretched to this.
+const MIN_CUE_DURATION_MS = 500;
+
+/** Formats milliseconds as HH:MM:SS followed by the millisecond separator each subtitle format expects. */
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}${separator}${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+function cueTiming(segment: TranscriptSegment, separator: ',' | '.'): string {
+  const endMs = Math.max(segment.endMs, segment.startMs + MIN_CUE_DURATION_MS);
+  return `${formatCueTime(segment.startMs, separator)} --> ${formatCueTime(endMs, separator)}`;
+}
+
+function toSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, i) => `${i + 1}\n${cueTiming(segment, ',')}\n${segment.speaker ? `${segment.speaker}: ` : ''}${segment.text}\n`)
+    .join('\n');
+}
+
+function toVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(segment => `${cueTiming(segment, '.')}\n${segment.speaker ? `<v ${segment.speaker}>` : ''}${segment.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+function toPlainText(segments: TranscriptSegment[]): string {
+  return groupBySpeaker(segments)
+    .map(turn => {
+      const heading = `[${formatTimestamp(turn.segments[0].startMs)}]${turn.speaker ? ` ${turn.speaker}:` : ''}`;
+      return `${heading}\n${turn.segments.map(segment => segment.text).join(' ')}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+function toJson(segments: TranscriptSegment[]): string {
+  return JSON.stringify({
+    segments: segments.map(({ text, startMs, endMs, speaker, isFinal }) => ({ text, startMs, endMs, speaker: speaker ?? null, isFinal })),
+  }, null, 2);
+}
+
+/**
+ * Serialises a transcript. Subtitle and text formats only carry final segments;
+ * JSON keeps any interim one too, flagged with `isFinal: false`.
+ */
+export function exportTranscript(segments: TranscriptSegment[], format: TranscriptFormat): Blob {
+  const finalSegments = segments.filter(segment => segment.isFinal);
+  const { mimeType } = TRANSCRIPT_FORMATS.find(f => f.value === format)!;
+  switch (format) {
+    case 'srt':
+      return new Blob([toSrt(finalSegments)], { type: mimeType });
+    case 'vtt':
+      return new Blob([toVtt(finalSegments)], { type: mimeType });
+    case 'txt':
+      return new Blob([toPlainText(finalSegments)], { type: mimeType });
+    case 'json':
+      return new Blob([toJson(segments)], { type: mimeType });
+  }
+}
@@ -0,0 +1,130 @@
+// Browsers have no API for concatenating encoded video, so clips are played
+// back one after another onto a canvas and re-recorded with MediaRecorder. This
+// runs in real time, and the tab has to stay visible: hidden tabs stop drawing.
+
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface StitchOptions {
+  /** Called as each clip starts, with its index. */
+  onClipStart?: (index: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+function loadClip(blob: Blob): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(blob);
+  return new Promise((resolve, reject) => {
+    video.oncanplaythrough = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error("A clip could not be decoded."));
+    };
+  });
+}
+
+function releaseClip(video: HTMLVideoElement): void {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+}
+
+// Scales the frame to fit, letterboxing clips whose shape differs from the first.
+function drawFrame(ctx: CanvasRenderingContext2D, video: HTMLVideoElement): void {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function playClip(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let frame = 0;
+    const finish = (err?: Error) => {
+      cancelAnimationFrame(frame);
+      signal?.removeEventListener('abort', onAbort);
+      video.onended = null;
+      if (err) reject(err);
+      else resolve();
+    };
+    const onAbort = () => finish(new DOMException("Stitching was cancelled.", 'AbortError'));
+    const render = () => {
+      drawFrame(ctx, video);
+      frame = requestAnimationFrame(render);
+    };
+    signal?.addEventListener('abort', onAbort);
+    video.onended = () => {
+      drawFrame(ctx, video);
+      finish();
+    };
+    video.play().then(render, err => finish(err instanceof Error ? err : new Error("A clip could not be played.")));
+  });
+}
+
+/** Joins clips in order into one WebM file, keeping their audio. The output takes the first clip's size. */
+export async function stitchVideos(clips: Blob[], options: StitchOptions = {}): Promise<Blob> {
+  if (clips.length === 0) {
+    throw new Error("There are no clips to join.");
+  }
+  const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("This browser cannot record WebM video.");
+  }
+
+  const loaded = await Promise.allSettled(clips.map(loadClip));
+  const videos = loaded.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  const failure = loaded.find(result => result.status === 'rejected');
+  if (failure) {
+    videos.forEach(releaseClip);
+    throw failure.reason;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = videos[0].videoWidth;
+  canvas.height = videos[0].videoHeight;
+  const ctx = canvas.getContext('2d');
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  try {
+    if (!ctx) {
+      throw new Error("Canvas is not available for stitching.");
+    }
+    // Routed through the graph, the clips' audio is recorded without playing aloud.
+    const sources = videos.map(video => audioContext.createMediaElementSource(video));
+    drawFrame(ctx, videos[0]);
+    recorder.start(1000);
+    for (let i = 0; i < videos.length; i++) {
+      options.signal?.throwIfAborted();
+      options.onClipStart?.(i, videos.length);
+      sources[i].connect(audioDestination);
+      await playClip(ctx, videos[i], options.signal);
+      sources[i].disconnect();
+    }
+  } finally {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach(track => track.stop());
+    videos.forEach(releaseClip);
+    audioContext.close();
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+}